@@ -0,0 +1,48 @@
+/**
+ * Argument parsing shared by the CLI and the interactive shell, so numbers
+ * and coil states are read the same way in both.
+ */
+
+/** An argument that is not a valid number or coil state */
+export class ArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArgumentError";
+  }
+}
+
+/** Parse a decimal or 0x hex number */
+export function parseNumber(value: string): number {
+  const number = /^0x[0-9a-f]+$/i.test(value)
+    ? parseInt(value.slice(2), 16)
+    : /^-?\d+(\.\d+)?$/.test(value)
+      ? Number(value)
+      : NaN;
+  if (Number.isNaN(number)) {
+    throw new ArgumentError(`Not a decimal or 0x hex number: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Parse a coil state: on/off, 1/0 or the raw FC 5 values 0xFF00/0x0000.
+ *
+ * @returns 1 for on, 0 for off
+ */
+export function parseCoil(value: string): number {
+  switch (value.toLowerCase()) {
+    case "on":
+    case "1":
+      return 1;
+    case "off":
+    case "0":
+      return 0;
+  }
+  if (/^(0x[0-9a-f]+|\d+)$/i.test(value)) {
+    const number = Number(value);
+    if (number === 0xff00 || number === 0x0000) {
+      return number === 0xff00 ? 1 : 0;
+    }
+  }
+  throw new ArgumentError(`Expected on, off, 1, 0, 0xFF00 or 0x0000: ${value}`);
+}
@@ -0,0 +1,140 @@
+/**
+ * V5 session captures.
+ *
+ * A capture is a JSONL file with one V5 frame per line, in the order the
+ * client sent or received them:
+ *
+ *   {"timestamp":"2026-01-01T12:00:00.000Z","direction":"sent","frame":"a517..."}
+ *
+ * `SolarmanV5` writes captures when created with the `record` option, and
+ * `CaptureReplayServer` plays them back.
+ */
+
+import { createWriteStream } from "node:fs";
+import type { WriteStream } from "node:fs";
+import { readFile } from "node:fs/promises";
+
+export type CaptureDirection = "sent" | "received";
+
+export interface CaptureEntry {
+  /** Time the frame was sent or received */
+  timestamp: Date;
+  /** "sent" for frames from the client, "received" for frames from the logger */
+  direction: CaptureDirection;
+  /** Complete V5 frame */
+  frame: Buffer;
+}
+
+export class CaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CaptureError";
+  }
+}
+
+// ---------- Writing ----------
+
+/**
+ * Appends V5 frames to a JSONL capture file. If the file cannot be written,
+ * the error is passed to `onError` and recording stops.
+ */
+export class CaptureRecorder {
+  public readonly path: string;
+  private stream: WriteStream | null = null;
+  private failure: Error | null = null;
+  private readonly onError?: (err: Error) => void;
+
+  constructor(path: string, onError?: (err: Error) => void) {
+    this.path = path;
+    this.onError = onError;
+  }
+
+  /** Append a frame to the capture, opening the file on first use */
+  record(direction: CaptureDirection, frame: Buffer): void {
+    if (this.failure) return;
+    if (!this.stream) {
+      const stream = createWriteStream(this.path, { flags: "a" });
+      // Open and write errors are asynchronous; without a listener they
+      // would crash the process
+      stream.on("error", (err) => {
+        if (this.failure) return;
+        this.failure = err;
+        if (this.stream === stream) this.stream = null;
+        stream.destroy();
+        this.onError?.(err);
+      });
+      this.stream = stream;
+    }
+    this.stream.write(formatCaptureEntry({ timestamp: new Date(), direction, frame }) + "\n");
+  }
+
+  /**
+   * Flush and close the capture file
+   *
+   * @returns The error that stopped recording, or null
+   */
+  async close(): Promise<Error | null> {
+    const stream = this.stream;
+    this.stream = null;
+    if (stream) {
+      await new Promise<void>((resolve) => {
+        stream.once("error", () => resolve());
+        stream.end(() => resolve());
+      });
+    }
+    return this.failure;
+  }
+}
+
+/** Serialise a capture entry as one JSONL line (without newline) */
+export function formatCaptureEntry(entry: CaptureEntry): string {
+  return JSON.stringify({
+    timestamp: entry.timestamp.toISOString(),
+    direction: entry.direction,
+    frame: entry.frame.toString("hex"),
+  });
+}
+
+// ---------- Reading ----------
+
+/** Parse the contents of a JSONL capture file */
+export function parseCapture(text: string): CaptureEntry[] {
+  const entries: CaptureEntry[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    let raw: { timestamp?: unknown; direction?: unknown; frame?: unknown };
+    try {
+      raw = JSON.parse(line);
+    } catch (err) {
+      throw new CaptureError(`Line ${i + 1}: ${(err as Error).message}`);
+    }
+
+    if (raw.direction !== "sent" && raw.direction !== "received") {
+      throw new CaptureError(`Line ${i + 1}: direction must be "sent" or "received"`);
+    }
+    if (typeof raw.frame !== "string" || !/^([0-9a-f]{2})+$/i.test(raw.frame)) {
+      throw new CaptureError(`Line ${i + 1}: frame must be a hex string`);
+    }
+    const timestamp = new Date(typeof raw.timestamp === "string" ? raw.timestamp : NaN);
+    if (Number.isNaN(timestamp.getTime())) {
+      throw new CaptureError(`Line ${i + 1}: invalid timestamp`);
+    }
+
+    entries.push({
+      timestamp,
+      direction: raw.direction,
+      frame: Buffer.from(raw.frame, "hex"),
+    });
+  }
+
+  return entries;
+}
+
+/** Load a JSONL capture file */
+export async function loadCapture(path: string): Promise<CaptureEntry[]> {
+  return parseCapture(await readFile(path, "utf8"));
+}
@@ -5,10 +5,33 @@
  * Solarman V5 data logging sticks.
  */
 
-import { Command } from "commander";
+import { dirname, join } from "node:path";
+import { Command, InvalidArgumentError, Option } from "commander";
 import { SolarmanV5 } from "./solarmanv5.js";
+import type { SolarmanV5Options } from "./solarmanv5.js";
+import { defaultConfigPath, loadConfig, resolveConnection } from "./config.js";
+import type { ConnectionSettings } from "./config.js";
 import { discover, scan } from "./discovery.js";
-import { decode } from "./decoder.js";
+import { decode, decodeToObject } from "./decoder.js";
+import { analyzePcapFile, formatTimeline } from "./pcap.js";
+import { ModbusTcpGateway } from "./gateway.js";
+import { addCrc } from "./modbus.js";
+import { loadRegisterMap } from "./registermap.js";
+import type { RegisterMap } from "./registermap.js";
+import { planReads } from "./planner.js";
+import type { RegisterRange } from "./planner.js";
+import { PROFILES } from "./profiles.js";
+import { SolarmanShell } from "./shell.js";
+import * as args from "./args.js";
+import {
+  OUTPUT_FORMATS,
+  bitRows,
+  formatRecord,
+  formatRows,
+  hex16,
+  registerRows,
+} from "./output.js";
+import type { OutputFormat, OutputRow, RegisterRow } from "./output.js";
 
 const program = new Command();
 
@@ -17,52 +40,138 @@ program
   .description(
     "CLI for interacting with Solarman (IGEN-Tech) v5 based solar inverter data loggers"
   )
-  .version("1.0.0");
+  .version("1.0.0")
+  // Program options go before the command, so -V stays free for --value.
+  // The global options are added to every command too, see the end of the file
+  .enablePositionalOptions();
+
+for (const option of globalOptions()) {
+  program.addOption(option);
+}
+
+// ---------- connection options ----------
+
+/** Options accepted before and after the command name */
+function globalOptions(): Option[] {
+  return [
+    new Option("-P, --profile <name>", "Logger profile from the config file"),
+    new Option("-c, --config <path>", "Config file (default: ~/.config/solarman/config.json)"),
+    new Option("-o, --output <format>", "Output format (default: table)").choices(
+      OUTPUT_FORMATS
+    ),
+  ];
+}
+
+/** Report argument errors as commander usage errors */
+function argParser(parse: (value: string) => number): (value: string) => number {
+  return (value) => {
+    try {
+      return parse(value);
+    } catch (err) {
+      throw new InvalidArgumentError((err as Error).message);
+    }
+  };
+}
+
+/** Parse a decimal or 0x-prefixed hexadecimal command-line number */
+const parseNumber = argParser(args.parseNumber);
+
+/**
+ * Add a command that talks to a logger. The connection options have no
+ * defaults here so that unset options fall back to the selected profile,
+ * the SOLARMAN_* environment variables and finally the built-in defaults.
+ */
+function loggerCommand(name: string): Command {
+  return program
+    .command(name)
+    .option("-a, --address <ip>", "IP address of the data logging stick")
+    .option("-s, --serial <number>", "Serial number of the data logging stick", parseNumber)
+    .option("-p, --port <number>", "TCP port (default: 8899)", parseNumber)
+    .option("-m, --mb-slave-id <number>", "Modbus slave ID (default: 1)", parseNumber)
+    .option("-t, --timeout <number>", "Socket timeout in seconds (default: 60)", parseNumber)
+    .option("-v, --verbose", "Enable verbose logging");
+}
+
+/** Resolve the connection settings of a logger command, exiting on error */
+async function connectionSettings(cmd: Command): Promise<ConnectionSettings> {
+  const opts = cmd.optsWithGlobals();
+  try {
+    const env = process.env;
+    const config = await loadConfig(opts.config ?? defaultConfigPath(env));
+    return resolveConnection({
+      cli: {
+        address: opts.address,
+        serial: opts.serial,
+        port: opts.port,
+        mbSlaveId: opts.mbSlaveId,
+        timeout: opts.timeout,
+        verbose: opts.verbose,
+      },
+      profile: opts.profile,
+      config,
+      env,
+    });
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function createClient(
+  settings: ConnectionSettings,
+  options: SolarmanV5Options = {}
+): SolarmanV5 {
+  return new SolarmanV5(settings.address, settings.serial, {
+    port: settings.port,
+    mbSlaveId: settings.mbSlaveId,
+    socketTimeout: settings.timeout,
+    verbose: settings.verbose,
+    ...options,
+  });
+}
+
+// ---------- output ----------
+
+function outputFormat(cmd: Command): OutputFormat {
+  return cmd.optsWithGlobals().output ?? "table";
+}
+
+function print(text: string): void {
+  if (text !== "") console.log(text);
+}
+
+function printRows(cmd: Command, rows: OutputRow[], columns?: string[]): void {
+  print(formatRows(rows, outputFormat(cmd), columns));
+}
+
+function printRecord(cmd: Command, record: OutputRow): void {
+  print(formatRecord(record, outputFormat(cmd)));
+}
 
 // ---------- read-input ----------
 
-program
-  .command("read-input")
+loggerCommand("read-input")
   .description("Read input registers (Modbus FC 4)")
-  .requiredOption("-a, --address <ip>", "IP address of the data logging stick")
-  .requiredOption(
-    "-s, --serial <number>",
-    "Serial number of the data logging stick",
-    parseInt
-  )
   .requiredOption(
     "-r, --register <number>",
     "Start register address",
-    parseInt
+    parseNumber
   )
   .requiredOption(
     "-q, --quantity <number>",
     "Number of registers to read",
-    parseInt
+    parseNumber
   )
-  .option("-p, --port <number>", "TCP port", (v: string) => parseInt(v, 10), 8899)
-  .option(
-    "-m, --mb-slave-id <number>",
-    "Modbus slave ID",
-    (v: string) => parseInt(v, 10),
-    1
-  )
-  .option("-t, --timeout <number>", "Socket timeout in seconds", (v: string) => parseInt(v, 10), 60)
-  .option("-v, --verbose", "Enable verbose logging", false)
-  .action(async (opts) => {
-    const modbus = new SolarmanV5(opts.address, opts.serial, {
-      port: opts.port,
-      mbSlaveId: opts.mbSlaveId,
-      socketTimeout: opts.timeout,
-      verbose: opts.verbose,
-    });
+  .option("--scale <number>", "Scaling factor for the scaled column", parseNumber, 1)
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
     try {
       await modbus.connect();
       const result = await modbus.readInputRegisters(
         opts.register,
         opts.quantity
       );
-      console.log(JSON.stringify(result));
+      printRows(cmd, registerRows(opts.register, result, opts.scale));
     } catch (err) {
       console.error(`Error: ${(err as Error).message}`);
       process.exit(1);
@@ -73,48 +182,28 @@ program
 
 // ---------- read-holding ----------
 
-program
-  .command("read-holding")
+loggerCommand("read-holding")
   .description("Read holding registers (Modbus FC 3)")
-  .requiredOption("-a, --address <ip>", "IP address of the data logging stick")
-  .requiredOption(
-    "-s, --serial <number>",
-    "Serial number of the data logging stick",
-    parseInt
-  )
   .requiredOption(
     "-r, --register <number>",
     "Start register address",
-    parseInt
+    parseNumber
   )
   .requiredOption(
     "-q, --quantity <number>",
     "Number of registers to read",
-    parseInt
+    parseNumber
   )
-  .option("-p, --port <number>", "TCP port", (v: string) => parseInt(v, 10), 8899)
-  .option(
-    "-m, --mb-slave-id <number>",
-    "Modbus slave ID",
-    (v: string) => parseInt(v, 10),
-    1
-  )
-  .option("-t, --timeout <number>", "Socket timeout in seconds", (v: string) => parseInt(v, 10), 60)
-  .option("-v, --verbose", "Enable verbose logging", false)
-  .action(async (opts) => {
-    const modbus = new SolarmanV5(opts.address, opts.serial, {
-      port: opts.port,
-      mbSlaveId: opts.mbSlaveId,
-      socketTimeout: opts.timeout,
-      verbose: opts.verbose,
-    });
+  .option("--scale <number>", "Scaling factor for the scaled column", parseNumber, 1)
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
     try {
       await modbus.connect();
       const result = await modbus.readHoldingRegisters(
         opts.register,
         opts.quantity
       );
-      console.log(JSON.stringify(result));
+      printRows(cmd, registerRows(opts.register, result, opts.scale));
     } catch (err) {
       console.error(`Error: ${(err as Error).message}`);
       process.exit(1);
@@ -125,40 +214,24 @@ program
 
 // ---------- write-holding ----------
 
-program
-  .command("write-holding")
+loggerCommand("write-holding")
   .description("Write a single holding register (Modbus FC 6)")
-  .requiredOption("-a, --address <ip>", "IP address of the data logging stick")
-  .requiredOption(
-    "-s, --serial <number>",
-    "Serial number of the data logging stick",
-    parseInt
-  )
-  .requiredOption("-r, --register <number>", "Register address", parseInt)
-  .requiredOption("-V, --value <number>", "Value to write", parseInt)
-  .option("-p, --port <number>", "TCP port", (v: string) => parseInt(v, 10), 8899)
-  .option(
-    "-m, --mb-slave-id <number>",
-    "Modbus slave ID",
-    (v: string) => parseInt(v, 10),
-    1
-  )
-  .option("-t, --timeout <number>", "Socket timeout in seconds", (v: string) => parseInt(v, 10), 60)
-  .option("-v, --verbose", "Enable verbose logging", false)
-  .action(async (opts) => {
-    const modbus = new SolarmanV5(opts.address, opts.serial, {
-      port: opts.port,
-      mbSlaveId: opts.mbSlaveId,
-      socketTimeout: opts.timeout,
-      verbose: opts.verbose,
-    });
+  .requiredOption("-r, --register <number>", "Register address", parseNumber)
+  .requiredOption("-V, --value <number>", "Value to write", parseNumber)
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
     try {
       await modbus.connect();
       const result = await modbus.writeHoldingRegister(
         opts.register,
         opts.value
       );
-      console.log(JSON.stringify(result));
+      printRecord(cmd, {
+        address: opts.register,
+        addressHex: hex16(opts.register),
+        value: result,
+        hex: hex16(result),
+      });
     } catch (err) {
       console.error(`Error: ${(err as Error).message}`);
       process.exit(1);
@@ -169,48 +242,27 @@ program
 
 // ---------- write-multiple ----------
 
-program
-  .command("write-multiple")
+loggerCommand("write-multiple")
   .description("Write multiple holding registers (Modbus FC 16)")
-  .requiredOption("-a, --address <ip>", "IP address of the data logging stick")
-  .requiredOption(
-    "-s, --serial <number>",
-    "Serial number of the data logging stick",
-    parseInt
-  )
   .requiredOption(
     "-r, --register <number>",
     "Start register address",
-    parseInt
+    parseNumber
   )
   .requiredOption(
     "--values <numbers...>",
     "Values to write (space separated)"
   )
-  .option("-p, --port <number>", "TCP port", (v: string) => parseInt(v, 10), 8899)
-  .option(
-    "-m, --mb-slave-id <number>",
-    "Modbus slave ID",
-    (v: string) => parseInt(v, 10),
-    1
-  )
-  .option("-t, --timeout <number>", "Socket timeout in seconds", (v: string) => parseInt(v, 10), 60)
-  .option("-v, --verbose", "Enable verbose logging", false)
-  .action(async (opts) => {
-    const modbus = new SolarmanV5(opts.address, opts.serial, {
-      port: opts.port,
-      mbSlaveId: opts.mbSlaveId,
-      socketTimeout: opts.timeout,
-      verbose: opts.verbose,
-    });
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
     try {
       await modbus.connect();
-      const values = (opts.values as string[]).map((v: string) => parseInt(v, 10));
-      const result = await modbus.writeMultipleHoldingRegisters(
+      const values = (opts.values as string[]).map(parseNumber);
+      const [quantity] = await modbus.writeMultipleHoldingRegisters(
         opts.register,
         values
       );
-      console.log(JSON.stringify(result));
+      printRecord(cmd, { address: opts.register, addressHex: hex16(opts.register), quantity });
     } catch (err) {
       console.error(`Error: ${(err as Error).message}`);
       process.exit(1);
@@ -221,45 +273,212 @@ program
 
 // ---------- read-coils ----------
 
-program
-  .command("read-coils")
+loggerCommand("read-coils")
   .description("Read coils (Modbus FC 1)")
-  .requiredOption("-a, --address <ip>", "IP address of the data logging stick")
   .requiredOption(
-    "-s, --serial <number>",
-    "Serial number of the data logging stick",
-    parseInt
+    "-r, --register <number>",
+    "Start register address",
+    parseNumber
+  )
+  .requiredOption(
+    "-q, --quantity <number>",
+    "Number of coils to read",
+    parseNumber
   )
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
+    try {
+      await modbus.connect();
+      const result = await modbus.readCoils(opts.register, opts.quantity);
+      printRows(cmd, bitRows(opts.register, result));
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+// ---------- read-discrete ----------
+
+loggerCommand("read-discrete")
+  .description("Read discrete inputs (Modbus FC 2)")
   .requiredOption(
     "-r, --register <number>",
     "Start register address",
-    parseInt
+    parseNumber
   )
   .requiredOption(
     "-q, --quantity <number>",
-    "Number of coils to read",
-    parseInt
+    "Number of discrete inputs to read",
+    parseNumber
   )
-  .option("-p, --port <number>", "TCP port", (v: string) => parseInt(v, 10), 8899)
-  .option(
-    "-m, --mb-slave-id <number>",
-    "Modbus slave ID",
-    (v: string) => parseInt(v, 10),
-    1
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
+    try {
+      await modbus.connect();
+      const result = await modbus.readDiscreteInputs(opts.register, opts.quantity);
+      printRows(cmd, bitRows(opts.register, result));
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+// ---------- write-coil ----------
+
+/** Parse a coil state: on/off, 1/0 or the raw 0xFF00/0x0000 value */
+const parseCoil = argParser(args.parseCoil);
+
+loggerCommand("write-coil")
+  .description("Write a single coil (Modbus FC 5)")
+  .requiredOption("-r, --register <number>", "Coil address", parseNumber)
+  .requiredOption("-V, --value <state>", "on/off, 1/0 or 0xFF00/0x0000", parseCoil)
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
+    try {
+      await modbus.connect();
+      const result = await modbus.writeSingleCoil(
+        opts.register,
+        opts.value ? 0xff00 : 0x0000
+      );
+      printRecord(cmd, {
+        address: opts.register,
+        addressHex: hex16(opts.register),
+        value: result === 0xff00 ? 1 : 0,
+      });
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+// ---------- write-coils ----------
+
+loggerCommand("write-coils")
+  .description("Write multiple coils (Modbus FC 15)")
+  .requiredOption(
+    "-r, --register <number>",
+    "Start coil address",
+    parseNumber
   )
-  .option("-t, --timeout <number>", "Socket timeout in seconds", (v: string) => parseInt(v, 10), 60)
-  .option("-v, --verbose", "Enable verbose logging", false)
-  .action(async (opts) => {
-    const modbus = new SolarmanV5(opts.address, opts.serial, {
-      port: opts.port,
-      mbSlaveId: opts.mbSlaveId,
-      socketTimeout: opts.timeout,
-      verbose: opts.verbose,
-    });
+  .requiredOption(
+    "--values <states...>",
+    "Coil states to write (on/off or 1/0, space separated)"
+  )
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
     try {
       await modbus.connect();
-      const result = await modbus.readCoils(opts.register, opts.quantity);
-      console.log(JSON.stringify(result));
+      const values = (opts.values as string[]).map(parseCoil);
+      const [quantity] = await modbus.writeMultipleCoils(opts.register, values);
+      printRecord(cmd, { address: opts.register, addressHex: hex16(opts.register), quantity });
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+// ---------- mask-write ----------
+
+loggerCommand("mask-write")
+  .description(
+    "Set and clear bits of a holding register: (current OR or-mask) AND and-mask"
+  )
+  .requiredOption("-r, --register <number>", "Register address", parseNumber)
+  .option("--or <mask>", "OR mask (bits to set)", parseNumber, 0x0000)
+  .option("--and <mask>", "AND mask (bits to keep)", parseNumber, 0xffff)
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
+    try {
+      await modbus.connect();
+      const result = await modbus.maskedWriteHoldingRegister(
+        opts.register,
+        opts.or,
+        opts.and
+      );
+      printRecord(cmd, {
+        address: opts.register,
+        addressHex: hex16(opts.register),
+        value: result,
+        hex: hex16(result),
+      });
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+// ---------- read-formatted ----------
+
+loggerCommand("read-formatted")
+  .description("Read registers and combine them into one scaled value")
+  .requiredOption(
+    "-r, --register <number>",
+    "Start register address",
+    parseNumber
+  )
+  .option("-q, --quantity <number>", "Number of registers to combine", parseNumber, 1)
+  .option("--input", "Read input registers (FC 4) instead of holding registers (FC 3)")
+  .option("--scale <number>", "Scaling factor (e.g. 0.1)", parseNumber)
+  .option("--signed", "Interpret as signed (2s complement)")
+  .option("--bitmask <number>", "Bitmask to apply", parseNumber)
+  .option("--bitshift <number>", "Right-shift amount", parseNumber)
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
+    const format = {
+      scale: opts.scale,
+      signed: opts.signed,
+      bitmask: opts.bitmask,
+      bitshift: opts.bitshift,
+    };
+    try {
+      await modbus.connect();
+      const result = opts.input
+        ? await modbus.readInputRegisterFormatted(opts.register, opts.quantity, format)
+        : await modbus.readHoldingRegisterFormatted(opts.register, opts.quantity, format);
+      printRecord(cmd, {
+        address: opts.register,
+        addressHex: hex16(opts.register),
+        quantity: opts.quantity,
+        value: result,
+      });
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+// ---------- raw ----------
+
+loggerCommand("raw")
+  .description("Send a raw Modbus RTU frame and print the raw response")
+  .argument("<hex...>", "Hex bytes of the RTU frame (e.g. 01 03 01 00 00 01)")
+  .option("--crc", "Append the Modbus CRC to the frame")
+  .action(async (hexBytes: string[], opts, cmd: Command) => {
+    const hex = hexBytes.join("").replace(/\s+/g, "");
+    if (!/^([0-9a-f]{2})+$/i.test(hex)) {
+      console.error("Error: Frame must be an even number of hex digits");
+      process.exit(1);
+    }
+    const frame = Buffer.from(hex, "hex");
+    const modbus = createClient(await connectionSettings(cmd));
+    try {
+      await modbus.connect();
+      const request = opts.crc ? addCrc(frame) : frame;
+      const response = await modbus.sendRawModbusFrame(request);
+      const spaced = (buffer: Buffer) => buffer.toString("hex").replace(/(..)(?!$)/g, "$1 ");
+      printRecord(cmd, { request: spaced(request), response: spaced(response) });
     } catch (err) {
       console.error(`Error: ${(err as Error).message}`);
       process.exit(1);
@@ -281,23 +500,19 @@ program
   .option(
     "-t, --timeout <number>",
     "Timeout in milliseconds",
-    (v: string) => parseInt(v, 10),
+    parseNumber,
     1000
   )
-  .action(async (opts) => {
+  .action(async (opts, cmd: Command) => {
     try {
       const loggers = await discover({
         address: opts.address,
         timeout: opts.timeout,
       });
-      if (loggers.length === 0) {
+      if (loggers.length === 0 && outputFormat(cmd) === "table") {
         console.log("No loggers found.");
       } else {
-        for (const logger of loggers) {
-          console.log(
-            `IP: ${logger.ip}  MAC: ${logger.mac}  Serial: ${logger.serial}`
-          );
-        }
+        printRows(cmd, loggers, ["ip", "mac", "serial"]);
       }
     } catch (err) {
       console.error(`Error: ${(err as Error).message}`);
@@ -314,20 +529,16 @@ program
   .option(
     "-t, --timeout <number>",
     "Timeout in milliseconds",
-    (v: string) => parseInt(v, 10),
+    parseNumber,
     1000
   )
-  .action(async (broadcast: string, opts) => {
+  .action(async (broadcast: string, opts, cmd: Command) => {
     try {
       const loggers = await scan(broadcast, opts.timeout);
-      if (loggers.length === 0) {
+      if (loggers.length === 0 && outputFormat(cmd) === "table") {
         console.log("No loggers found.");
       } else {
-        for (const logger of loggers) {
-          console.log(
-            `IP: ${logger.ip}  MAC: ${logger.mac}  Serial: ${logger.serial}`
-          );
-        }
+        printRows(cmd, loggers, ["ip", "mac", "serial"]);
       }
     } catch (err) {
       console.error(`Error: ${(err as Error).message}`);
@@ -337,102 +548,197 @@ program
 
 // ---------- register-scan ----------
 
-program
-  .command("register-scan")
+/** Load a register map from a file, or a built-in profile by name */
+async function loadMap(name: string): Promise<RegisterMap> {
+  return Object.hasOwn(PROFILES, name) ? PROFILES[name] : loadRegisterMap(name);
+}
+
+/** Parse a "start-end" register range and add it to the ranges so far */
+function collectRange(value: string, ranges: RegisterRange[] = []): RegisterRange[] {
+  const parts = value.split("-");
+  const [start, end = start] = parts.map(parseNumber);
+  if (parts.length > 2 || end < start) {
+    throw new InvalidArgumentError("Expected <start>-<end> with start <= end.");
+  }
+  return [...ranges, { start, end }];
+}
+
+loggerCommand("register-scan")
   .description(
     "Scan a range of holding registers and display all non-zero values"
   )
-  .requiredOption("-a, --address <ip>", "IP address of the data logging stick")
-  .requiredOption(
-    "-s, --serial <number>",
-    "Serial number of the data logging stick",
-    parseInt
-  )
   .option(
     "--start <number>",
     "Start register address (decimal or 0x hex)",
-    (v: string) => parseInt(v, v.startsWith("0x") ? 16 : 10),
+    parseNumber,
     0
   )
   .option(
     "--end <number>",
     "End register address (decimal or 0x hex)",
-    (v: string) => parseInt(v, v.startsWith("0x") ? 16 : 10),
+    parseNumber,
     0x0130
   )
   .option(
     "--chunk <number>",
-    "Registers to read per request (max ~40 is safe)",
-    (v: string) => parseInt(v, 10),
+    "Most registers to read per request (max ~40 is safe)",
+    parseNumber,
     10
   )
+  .option(
+    "--hole <range>",
+    "Register range to skip, e.g. 0x010A-0x0114 (repeatable)",
+    collectRange
+  )
+  .option(
+    "--map <file>",
+    "Take the request size limit and holes from a register map or built-in profile"
+  )
   .option(
     "--delay <number>",
     "Delay between requests in milliseconds",
-    (v: string) => parseInt(v, 10),
+    parseNumber,
     500
   )
   .option("--all", "Show all registers including zeros", false)
-  .option("-p, --port <number>", "TCP port", (v: string) => parseInt(v, 10), 8899)
-  .option(
-    "-m, --mb-slave-id <number>",
-    "Modbus slave ID",
-    (v: string) => parseInt(v, 10),
-    1
-  )
-  .option("-t, --timeout <number>", "Socket timeout in seconds", (v: string) => parseInt(v, 10), 60)
-  .option("-v, --verbose", "Enable verbose logging", false)
-  .action(async (opts) => {
-    const modbus = new SolarmanV5(opts.address, opts.serial, {
-      port: opts.port,
-      mbSlaveId: opts.mbSlaveId,
-      socketTimeout: opts.timeout,
-      verbose: opts.verbose,
-    });
+  .option("--scale <number>", "Scaling factor for the scaled column", parseNumber, 1)
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd));
     try {
-      await modbus.connect();
-
       const start: number = opts.start;
       const end: number = opts.end;
-      const chunk: number = opts.chunk;
       const delay: number = opts.delay;
       const showAll: boolean = opts.all;
+      const map: RegisterMap | undefined = opts.map ? await loadMap(opts.map) : undefined;
 
-      console.log(
-        `Scanning registers 0x${start.toString(16).padStart(4, "0")} ` +
-          `(${start}) to 0x${end.toString(16).padStart(4, "0")} (${end})...\n`
-      );
-      console.log(
-        `${"Addr".padStart(7)}  ${"Hex".padStart(6)}  ${"Dec".padStart(7)}  ${"Hex Value".padStart(9)}`
+      const addresses: number[] = [];
+      for (let addr = start; addr <= end; addr++) addresses.push(addr);
+      const plan = planReads(addresses, {
+        maxQuantity: Math.min(opts.chunk, map?.maxRegistersPerRequest ?? opts.chunk),
+        maxGap: map?.maxGap,
+        holes: [...(map?.holes ?? []), ...(opts.hole ?? [])],
+      });
+
+      await modbus.connect();
+
+      // Progress goes to stderr so that stdout carries only the results
+      console.error(
+        `Scanning registers ${hex16(start)} (${start}) to ${hex16(end)} (${end}) ` +
+          `in ${plan.length} requests...`
       );
-      console.log("-".repeat(38));
 
-      for (let addr = start; addr <= end; addr += chunk) {
-        const qty = Math.min(chunk, end - addr + 1);
+      const rows: RegisterRow[] = [];
+      for (const [i, read] of plan.entries()) {
         try {
-          const values = await modbus.readHoldingRegisters(addr, qty);
-          for (let i = 0; i < values.length; i++) {
-            const regAddr = addr + i;
-            const val = values[i];
-            if (showAll || val !== 0) {
-              const addrHex = `0x${regAddr.toString(16).padStart(4, "0")}`;
-              const addrDec = regAddr.toString().padStart(7);
-              const valDec = val.toString().padStart(7);
-              const valHex = `0x${val.toString(16).padStart(4, "0")}`;
-              console.log(
-                `${addrHex}  ${addrDec}  ${valDec}  ${valHex}`
-              );
-            }
-          }
+          const values = await modbus.readHoldingRegisters(read.start, read.quantity);
+          rows.push(
+            ...registerRows(read.start, values, opts.scale).filter(
+              (row) => showAll || row.value !== 0
+            )
+          );
         } catch {
           // Skip ranges that return errors (invalid address segments)
         }
-        if (addr + chunk <= end && delay > 0) {
+        if (i < plan.length - 1 && delay > 0) {
           await new Promise((r) => setTimeout(r, delay));
         }
       }
 
-      console.log("\nScan complete.");
+      printRows(cmd, rows);
+      console.error("Scan complete.");
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+// ---------- gateway ----------
+
+loggerCommand("gateway")
+  .description("Expose the data logging stick as a Modbus TCP server")
+  .option(
+    "-l, --listen-port <number>",
+    "Modbus TCP port to listen on",
+    parseNumber,
+    502
+  )
+  .option("-H, --host <ip>", "Address to bind the Modbus TCP server to", "0.0.0.0")
+  .option(
+    "-u, --unit-id <number>",
+    "Slave ID to use on the RTU side instead of each request's unit ID",
+    parseNumber
+  )
+  .action(async (opts, cmd: Command) => {
+    const settings = await connectionSettings(cmd);
+    const modbus = createClient(settings, { autoReconnect: true });
+    const gateway = new ModbusTcpGateway(modbus, {
+      port: opts.listenPort,
+      host: opts.host,
+      unitId: opts.unitId,
+      verbose: settings.verbose,
+    });
+    // A long-running command: the machine-readable formats get one JSON
+    // object per event rather than a single document
+    const report = (event: string, text: string, details: object) =>
+      console.log(
+        outputFormat(cmd) === "table"
+          ? text
+          : JSON.stringify({ time: new Date(), event, ...details })
+      );
+    gateway.on("connect", (remote) =>
+      report("connect", `Client connected: ${remote}`, { remote })
+    );
+    gateway.on("disconnect", (remote) =>
+      report("disconnect", `Client disconnected: ${remote}`, { remote })
+    );
+    gateway.on("error", (err) => console.error(`Error: ${err.message}`));
+
+    const shutdown = async () => {
+      await gateway.close();
+      await modbus.disconnect();
+      process.exit(0);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+
+    try {
+      await modbus.connect();
+      await gateway.listen();
+      const { address, port } = gateway.address()!;
+      report("listening", `Modbus TCP gateway listening on ${address}:${port}`, {
+        address,
+        port,
+      });
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      await modbus.disconnect();
+      process.exit(1);
+    }
+  });
+
+// ---------- shell ----------
+
+loggerCommand("shell")
+  .description("Interactive shell on one connection to the data logging stick")
+  .option(
+    "--map <file>",
+    "Register map (JSON/YAML file or built-in profile name) for named fields"
+  )
+  .action(async (opts, cmd: Command) => {
+    const modbus = createClient(await connectionSettings(cmd), { autoReconnect: true });
+    try {
+      const map = opts.map
+        ? await loadMap(opts.map)
+        : undefined;
+      await modbus.connect();
+      const shell = new SolarmanShell(modbus, {
+        map,
+        format: outputFormat(cmd),
+        historyFile: join(dirname(defaultConfigPath()), "history"),
+      });
+      await shell.run();
     } catch (err) {
       console.error(`Error: ${(err as Error).message}`);
       process.exit(1);
@@ -447,13 +753,75 @@ program
   .command("decode")
   .description("Decode a Solarman V5 frame")
   .argument("<hex...>", "Hex bytes of the frame (e.g. a5 17 00 10 45 ...)")
-  .action((hexBytes: string[]) => {
+  .option("--json", "Same as --output json")
+  .action((hexBytes: string[], opts, cmd: Command) => {
     try {
-      console.log(decode(hexBytes));
+      const format = opts.json ? "json" : outputFormat(cmd);
+      if (format === "table") {
+        console.log(decode(hexBytes));
+      } else {
+        print(formatRecord(decodeToObject(hexBytes), format));
+      }
     } catch (err) {
       console.error(`Error: ${(err as Error).message}`);
       process.exit(1);
     }
   });
 
+// ---------- analyze ----------
+
+program
+  .command("analyze")
+  .description("Decode and pair the V5 frames in a pcap/pcapng capture")
+  .argument("<file>", "pcap or pcapng file, e.g. from tcpdump")
+  .option(
+    "-p, --port <number...>",
+    "TCP ports carrying V5 traffic (other ports are detected by content)",
+    (v: string, prev: number[] = []) => [...prev, parseNumber(v)]
+  )
+  .option("--json", "Same as --output json")
+  .action(async (file: string, opts, cmd: Command) => {
+    try {
+      const analysis = await analyzePcapFile(file, { ports: opts.port });
+      const format = opts.json ? "json" : outputFormat(cmd);
+      if (format === "table") {
+        console.log(formatTimeline(analysis));
+      } else {
+        const entries = analysis.entries.map((entry) => ({
+          index: entry.index,
+          timestamp: entry.timestamp,
+          source: entry.source,
+          destination: entry.destination,
+          pair: entry.pair,
+          latency: entry.latency,
+          frame: entry.frame.toString("hex"),
+          decoded: decodeToObject(entry.frame.toString("hex")),
+        }));
+        if (format === "json") {
+          console.log(JSON.stringify({ ...analysis, entries }, null, 2));
+        } else if (format === "ndjson") {
+          print(formatRows(entries, format));
+        } else {
+          const rows = entries.map(({ decoded, frame, ...entry }) => ({
+            ...entry,
+            controlCode: decoded.controlCodeName,
+            sequence: decoded.sequenceNumbers[0],
+            frame,
+          }));
+          print(formatRows(rows, format));
+        }
+      }
+    } catch (err) {
+      console.error(`Error: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
+
+// Accept the global options after the command name as well
+for (const command of program.commands) {
+  for (const option of globalOptions()) {
+    command.addOption(option);
+  }
+}
+
 program.parse();
@@ -0,0 +1,260 @@
+/**
+ * CLI configuration – named logger profiles and environment overrides.
+ *
+ * The config file (default `~/.config/solarman/config.json`) holds the
+ * connection settings of each logger under a name:
+ *
+ *   {
+ *     "default": "logger1",
+ *     "profiles": {
+ *       "logger1": { "address": "192.168.1.100", "serial": 3574591882 },
+ *       "logger2": { "address": "192.168.1.101", "serial": 2612749371, "mbSlaveId": 2 }
+ *     }
+ *   }
+ *
+ * Settings are resolved from, in increasing priority: built-in defaults,
+ * the selected profile, SOLARMAN_* environment variables and command-line
+ * options.
+ */
+
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+// ---------- Types ----------
+
+/** Connection settings of one logger. Every field is optional */
+export interface LoggerProfile {
+  /** IP address or host name of the data logging stick */
+  address?: string;
+  /** Serial number of the data logging stick */
+  serial?: number;
+  /** TCP port. Default: 8899 */
+  port?: number;
+  /** Modbus slave ID. Default: 1 */
+  mbSlaveId?: number;
+  /** Socket timeout in seconds. Default: 60 */
+  timeout?: number;
+  /** Enable verbose logging. Default: false */
+  verbose?: boolean;
+}
+
+export interface CliConfig {
+  /** Profile used when none is selected */
+  default?: string;
+  profiles: Record<string, LoggerProfile>;
+}
+
+/** Fully resolved connection settings */
+export interface ConnectionSettings {
+  address: string;
+  serial: number;
+  port: number;
+  mbSlaveId: number;
+  timeout: number;
+  verbose: boolean;
+  /** Name of the profile the settings came from, if any */
+  profile: string | null;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULTS = { port: 8899, mbSlaveId: 1, timeout: 60, verbose: false };
+
+const PROFILE_FIELDS: Record<keyof LoggerProfile, "string" | "number" | "boolean"> = {
+  address: "string",
+  serial: "number",
+  port: "number",
+  mbSlaveId: "number",
+  timeout: "number",
+  verbose: "boolean",
+};
+
+// ---------- Config file ----------
+
+/**
+ * Path of the config file: $SOLARMAN_CONFIG, else
+ * $XDG_CONFIG_HOME/solarman/config.json, else ~/.config/solarman/config.json
+ */
+export function defaultConfigPath(env: Env = process.env): string {
+  if (env.SOLARMAN_CONFIG) return env.SOLARMAN_CONFIG;
+  const configHome = env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(configHome, "solarman", "config.json");
+}
+
+/** Parse and validate the contents of a config file */
+export function parseConfig(text: string): CliConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    throw new ConfigError(`Invalid JSON: ${(err as Error).message}`);
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ConfigError("Config must be a JSON object");
+  }
+
+  const { default: defaultProfile, profiles = {} } = raw as {
+    default?: unknown;
+    profiles?: unknown;
+  };
+  if (defaultProfile !== undefined && typeof defaultProfile !== "string") {
+    throw new ConfigError(`"default" must be a profile name`);
+  }
+  if (typeof profiles !== "object" || profiles === null || Array.isArray(profiles)) {
+    throw new ConfigError(`"profiles" must be an object`);
+  }
+
+  // fromEntries keeps a "__proto__" profile as a plain own property
+  const config: CliConfig = {
+    profiles: Object.fromEntries(
+      Object.entries(profiles).map(([name, profile]) => [name, parseProfile(name, profile)])
+    ),
+  };
+  if (defaultProfile !== undefined) {
+    if (!Object.hasOwn(config.profiles, defaultProfile)) {
+      throw new ConfigError(`Default profile "${defaultProfile}" is not defined`);
+    }
+    config.default = defaultProfile;
+  }
+  return config;
+}
+
+function parseProfile(name: string, raw: unknown): LoggerProfile {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(`Profile "${name}" must be an object`);
+  }
+  const profile: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const type = PROFILE_FIELDS[key as keyof LoggerProfile];
+    if (!type) {
+      throw new ConfigError(`Profile "${name}": unknown setting "${key}"`);
+    }
+    if (typeof value !== type || (type === "number" && !Number.isFinite(value))) {
+      throw new ConfigError(`Profile "${name}": "${key}" must be a ${type}`);
+    }
+    profile[key] = value;
+  }
+  return profile as LoggerProfile;
+}
+
+/** Load a config file. A missing file yields an empty config */
+export async function loadConfig(path: string = defaultConfigPath()): Promise<CliConfig> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return { profiles: {} };
+    }
+    throw err;
+  }
+  try {
+    return parseConfig(text);
+  } catch (err) {
+    throw new ConfigError(`${path}: ${(err as Error).message}`);
+  }
+}
+
+// ---------- Resolution ----------
+
+function envNumber(env: Env, name: string): number | undefined {
+  const value = env[name];
+  if (value === undefined || value === "") return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new ConfigError(`${name} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Connection settings from SOLARMAN_ADDRESS, SOLARMAN_SERIAL,
+ * SOLARMAN_PORT, SOLARMAN_MB_SLAVE_ID, SOLARMAN_TIMEOUT and
+ * SOLARMAN_VERBOSE
+ */
+export function profileFromEnv(env: Env = process.env): LoggerProfile {
+  const profile: LoggerProfile = {
+    address: env.SOLARMAN_ADDRESS || undefined,
+    serial: envNumber(env, "SOLARMAN_SERIAL"),
+    port: envNumber(env, "SOLARMAN_PORT"),
+    mbSlaveId: envNumber(env, "SOLARMAN_MB_SLAVE_ID"),
+    timeout: envNumber(env, "SOLARMAN_TIMEOUT"),
+    verbose: env.SOLARMAN_VERBOSE
+      ? ["1", "true", "yes"].includes(env.SOLARMAN_VERBOSE.toLowerCase())
+      : undefined,
+  };
+  return withoutUndefined(profile);
+}
+
+function withoutUndefined(profile: LoggerProfile): LoggerProfile {
+  return Object.fromEntries(
+    Object.entries(profile).filter(([, value]) => value !== undefined)
+  ) as LoggerProfile;
+}
+
+export interface ResolveConnectionOptions {
+  /** Settings given on the command line */
+  cli?: LoggerProfile;
+  /** Profile to use. Default: $SOLARMAN_PROFILE, else the config's default */
+  profile?: string;
+  config?: CliConfig;
+  env?: Env;
+}
+
+/**
+ * Merge defaults, profile, environment and command-line settings.
+ *
+ * @throws ConfigError if the profile does not exist, or no address or
+ *         serial number is set anywhere
+ */
+export function resolveConnection(options: ResolveConnectionOptions = {}): ConnectionSettings {
+  const env = options.env ?? process.env;
+  const config = options.config ?? { profiles: {} };
+  const name = options.profile ?? (env.SOLARMAN_PROFILE || undefined) ?? config.default ?? null;
+
+  let profile: LoggerProfile = {};
+  if (name !== null) {
+    if (!Object.hasOwn(config.profiles, name)) {
+      const known = Object.keys(config.profiles);
+      throw new ConfigError(
+        `Unknown profile "${name}"` + (known.length ? ` (known: ${known.join(", ")})` : "")
+      );
+    }
+    profile = config.profiles[name];
+  }
+
+  const settings = {
+    ...DEFAULTS,
+    ...profile,
+    ...profileFromEnv(env),
+    ...withoutUndefined(options.cli ?? {}),
+  };
+  if (!settings.address) {
+    throw new ConfigError(
+      "No logger address: pass --address, set SOLARMAN_ADDRESS or select a profile"
+    );
+  }
+  if (settings.serial === undefined || Number.isNaN(settings.serial)) {
+    throw new ConfigError(
+      "No logger serial number: pass --serial, set SOLARMAN_SERIAL or select a profile"
+    );
+  }
+
+  return {
+    address: settings.address,
+    serial: settings.serial,
+    port: settings.port,
+    mbSlaveId: settings.mbSlaveId,
+    timeout: settings.timeout,
+    verbose: settings.verbose,
+    profile: name,
+  };
+}
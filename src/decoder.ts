@@ -1,18 +1,32 @@
 /**
  * Solarman V5 frame decoder utility.
  *
- * Parses and displays the contents of a V5 frame in human-readable format.
+ * Parses and displays the contents of a V5 frame in human-readable format,
+ * or as a plain object for scripts.
  */
 
 import { crc16, getCrc } from "./modbus.js";
+import { parseDataFrame, parseInfoFrame } from "./payloads.js";
+import type { LoggerDataFrame, LoggerInfo } from "./payloads.js";
 
 // ---------- Enums ----------
 
 export enum V5CtrlCode {
+  // Client <-> logger Modbus passthrough
   V5Request = 0x4510,
   V5Response = 0x1510,
-  LoggerPing = 0x4710,
+  // Logger -> server pushes
+  LoggerHandshake = 0x4110,
   LoggerResponse = 0x4210,
+  LoggerInfo = 0x4310,
+  LoggerPing = 0x4710,
+  LoggerReport = 0x4810,
+  // Server -> logger time responses
+  HandshakeResponse = 0x1110,
+  DataResponse = 0x1210,
+  InfoResponse = 0x1310,
+  PingResponse = 0x1710,
+  ReportResponse = 0x1810,
   Unknown = 0xdeadc0de,
 }
 
@@ -23,13 +37,52 @@ export enum V5FrameType {
   Unknown = -1,
 }
 
+/** Who sent a frame to whom */
+export enum V5Direction {
+  ClientToLogger = "ClientToLogger",
+  LoggerToClient = "LoggerToClient",
+  LoggerToServer = "LoggerToServer",
+  ServerToLogger = "ServerToLogger",
+  Unknown = "Unknown",
+}
+
+/** How the payload between header and trailer is laid out */
+export enum V5PayloadLayout {
+  /** 15-byte (request) or 14-byte (response) preamble and a Modbus RTU frame */
+  Modbus = "Modbus",
+  /** 15-byte preamble and register blocks */
+  Data = "Data",
+  /** 15-byte preamble, signal strength and ASCII fields */
+  Info = "Info",
+  /** Frame/sensor type, UNIX timestamp and offset (10 bytes) */
+  TimeResponse = "TimeResponse",
+  /** Not decoded further (handshake, heartbeat, report, unknown) */
+  Raw = "Raw",
+}
+
 const CTRL_CODE_NAMES: Record<number, string> = {
   [V5CtrlCode.V5Request]: "V5Request",
   [V5CtrlCode.V5Response]: "V5Response",
-  [V5CtrlCode.LoggerPing]: "LoggerPing",
+  [V5CtrlCode.LoggerHandshake]: "LoggerHandshake",
   [V5CtrlCode.LoggerResponse]: "LoggerResponse",
+  [V5CtrlCode.LoggerInfo]: "LoggerInfo",
+  [V5CtrlCode.LoggerPing]: "LoggerPing",
+  [V5CtrlCode.LoggerReport]: "LoggerReport",
+  [V5CtrlCode.HandshakeResponse]: "HandshakeResponse",
+  [V5CtrlCode.DataResponse]: "DataResponse",
+  [V5CtrlCode.InfoResponse]: "InfoResponse",
+  [V5CtrlCode.PingResponse]: "PingResponse",
+  [V5CtrlCode.ReportResponse]: "ReportResponse",
 };
 
+const TIME_RESPONSE_CODES = new Set<V5CtrlCode>([
+  V5CtrlCode.HandshakeResponse,
+  V5CtrlCode.DataResponse,
+  V5CtrlCode.InfoResponse,
+  V5CtrlCode.PingResponse,
+  V5CtrlCode.ReportResponse,
+]);
+
 const FRAME_TYPE_NAMES: Record<number, string> = {
   [V5FrameType.KeepAlive]: "KeepAlive",
   [V5FrameType.Logger]: "Logger",
@@ -87,8 +140,21 @@ export class V5Frame {
     return check;
   }
 
+  /** Checksum byte stored in the frame */
+  get frameChecksum(): number {
+    return this.frame[this.frame.length - 2];
+  }
+
   get v5ChecksumValid(): boolean {
-    return this.frame[this.frame.length - 2] === this.v5Checksum;
+    return this.frameChecksum === this.v5Checksum;
+  }
+
+  get frameEnd(): number {
+    return this.frame[this.frame.length - 1];
+  }
+
+  get frameEndValid(): boolean {
+    return this.frameEnd === 0x15;
   }
 
   get v5Length(): number {
@@ -103,6 +169,42 @@ export class V5Frame {
     return CTRL_CODE_NAMES[this.controlCode] ?? "Unknown";
   }
 
+  get direction(): V5Direction {
+    const code = this.controlCode;
+    if (code === V5CtrlCode.V5Request) return V5Direction.ClientToLogger;
+    if (code === V5CtrlCode.V5Response) return V5Direction.LoggerToClient;
+    if (TIME_RESPONSE_CODES.has(code)) return V5Direction.ServerToLogger;
+    if (code === V5CtrlCode.Unknown) return V5Direction.Unknown;
+    return V5Direction.LoggerToServer;
+  }
+
+  get payloadLayout(): V5PayloadLayout {
+    const code = this.controlCode;
+    if (code === V5CtrlCode.V5Request || code === V5CtrlCode.V5Response) {
+      return V5PayloadLayout.Modbus;
+    }
+    if (code === V5CtrlCode.LoggerResponse) return V5PayloadLayout.Data;
+    if (code === V5CtrlCode.LoggerInfo) return V5PayloadLayout.Info;
+    if (TIME_RESPONSE_CODES.has(code)) return V5PayloadLayout.TimeResponse;
+    return V5PayloadLayout.Raw;
+  }
+
+  /** Bytes between header and trailer */
+  get payload(): Buffer {
+    return this.frame.subarray(11, Math.max(11, this.frame.length - 2));
+  }
+
+  /** Timestamp and offset of a server time response, or null for other frames */
+  get timeResponse(): { timestamp: Date; offset: number } | null {
+    if (this.payloadLayout !== V5PayloadLayout.TimeResponse) return null;
+    const payload = this.payload;
+    if (payload.length < 10) return null;
+    return {
+      timestamp: new Date(payload.readUInt32LE(2) * 1000),
+      offset: payload.readUInt32LE(6),
+    };
+  }
+
   get sequenceNumbers(): [number, number] {
     return [this.frame[5], this.frame[6]];
   }
@@ -123,18 +225,27 @@ export class V5Frame {
     return this.frame[12];
   }
 
+  /** Whether the payload starts with frame type, status and timestamps */
+  get hasPreamble(): boolean {
+    return (
+      this.frameType !== V5FrameType.KeepAlive &&
+      this.payloadLayout !== V5PayloadLayout.TimeResponse &&
+      this.payload.length >= 14
+    );
+  }
+
   get totalWorkTime(): number {
-    if (this.frameType === V5FrameType.KeepAlive) return 0;
+    if (!this.hasPreamble) return 0;
     return unsignedInt(this.frame.subarray(13, 17));
   }
 
   get powerOnTime(): number {
-    if (this.frameType === V5FrameType.KeepAlive) return 0;
+    if (!this.hasPreamble) return 0;
     return unsignedInt(this.frame.subarray(17, 21));
   }
 
   get offsetTime(): number {
-    if (this.frameType === V5FrameType.KeepAlive) return 0;
+    if (!this.hasPreamble) return 0;
     return unsignedInt(this.frame.subarray(21, 25));
   }
 
@@ -177,6 +288,18 @@ export class V5Frame {
     return realCrc[0] === calculated[0] && realCrc[1] === calculated[1];
   }
 
+  /** Register blocks of a DATA (0x4210) frame, or null for other frames */
+  get dataFrame(): LoggerDataFrame | null {
+    if (this.controlCode !== V5CtrlCode.LoggerResponse) return null;
+    return parseDataFrame(this.frame);
+  }
+
+  /** Logger metadata of an INFO (0x4310) frame, or null for other frames */
+  get loggerInfo(): LoggerInfo | null {
+    if (this.controlCode !== V5CtrlCode.LoggerInfo) return null;
+    return parseInfoFrame(this.frame);
+  }
+
   payloadString(): string {
     const start = this.rtuStartAt;
     let payloadT: string;
@@ -214,6 +337,147 @@ export class V5Frame {
   }
 }
 
+// ---------- Structured output ----------
+
+/** RTU payload of a request or response frame */
+export interface DecodedRtuPayload {
+  /** Request, Response or Unknown, from the control code */
+  kind: "Request" | "Response" | "Unknown";
+  slaveId: number;
+  functionCode: number;
+  /** Start address of a request, null for responses */
+  address: number | null;
+  /**
+   * Quantity of a request, or the Modbus frame length reported by the V5
+   * header of a response
+   */
+  quantity: number;
+  /** Hex bytes between the function code and the CRC */
+  data: string;
+  /** CRC at the end of the RTU frame */
+  crc: number;
+  /** CRC calculated over the RTU frame */
+  calculatedCrc: number;
+  crcValid: boolean;
+  /** A second CRC was appended to a valid RTU frame */
+  doubleCrc: boolean;
+}
+
+/** Every field of a V5 frame, as returned by `decodeToObject()` */
+export interface DecodedV5Frame {
+  start: { value: number; valid: boolean };
+  end: { value: number; valid: boolean };
+  length: number;
+  checksum: { value: number; calculated: number; valid: boolean };
+  controlCode: number;
+  controlCodeName: string;
+  sequenceNumbers: [number, number];
+  serial: number;
+  frameType: number;
+  frameTypeName: string;
+  frameStatus: number;
+  totalWorkTime: number;
+  powerOnTime: number;
+  offsetTime: number;
+  /** Total working time + power on time + offset time */
+  frameTime: Date;
+  direction: V5Direction;
+  payloadLayout: V5PayloadLayout;
+  /** Hex bytes between header and trailer */
+  payload: string;
+  /** Offset of the RTU frame within the V5 frame */
+  rtuStartAt: number;
+  /** RTU payload of Modbus request/response frames, or null */
+  rtu: DecodedRtuPayload | null;
+  /** Timestamp and offset of a server time response, or null */
+  timeResponse: { timestamp: Date; offset: number } | null;
+  /** Register blocks of a DATA frame, or null */
+  loggerData: LoggerDataFrame | null;
+  /** Logger metadata of an INFO frame, or null */
+  loggerInfo: LoggerInfo | null;
+}
+
+/** Parse a frame section that may be missing from truncated frames */
+function optional<T>(parse: () => T | null): T | null {
+  try {
+    return parse();
+  } catch {
+    return null;
+  }
+}
+
+function decodeRtuPayload(frame: V5Frame): DecodedRtuPayload {
+  const rtu = frame.rtu;
+  let kind: DecodedRtuPayload["kind"] = "Unknown";
+  let address: number | null = null;
+  let quantity = frame.v5Length - 14;
+  if (frame.controlCode === V5CtrlCode.V5Request) {
+    kind = "Request";
+    address = rtu.length >= 4 ? rtu.readUInt16BE(2) : null;
+    quantity = rtu.length >= 6 ? rtu.readUInt16BE(4) : 0;
+  } else if (frame.controlCode === V5CtrlCode.V5Response) {
+    kind = "Response";
+  }
+
+  return {
+    kind,
+    slaveId: rtu[0],
+    functionCode: rtu[1],
+    address,
+    quantity,
+    data: rtu.subarray(2, Math.max(2, rtu.length - 2)).toString("hex"),
+    crc: frame.frameCrc,
+    calculatedCrc: frame.calculatedCrc,
+    crcValid: frame.rtuCrcValid,
+    doubleCrc: frame.doubleCrcFrame,
+  };
+}
+
+/**
+ * Decode a V5 frame into a plain object with every field of `V5Frame`.
+ *
+ * @param hexBytes  Array of hex byte strings (e.g. ["a5", "17", "00", ...])
+ *                  or a single hex string
+ */
+export function decodeToObject(hexBytes: string | string[]): DecodedV5Frame {
+  const hexString = Array.isArray(hexBytes) ? hexBytes.join("") : hexBytes;
+  const frame = new V5Frame(hexString);
+  const frameTime = frame.totalWorkTime + frame.powerOnTime + frame.offsetTime;
+
+  return {
+    start: { value: frame.frameStart, valid: frame.frameStartValid },
+    end: { value: frame.frameEnd, valid: frame.frameEndValid },
+    length: frame.v5Length,
+    checksum: {
+      value: frame.frameChecksum,
+      calculated: frame.v5Checksum,
+      valid: frame.v5ChecksumValid,
+    },
+    controlCode: frame.controlCode,
+    controlCodeName: frame.controlCodeName,
+    sequenceNumbers: frame.sequenceNumbers,
+    serial: frame.serial,
+    frameType: frame.frameType,
+    frameTypeName: frame.frameTypeName,
+    frameStatus: frame.frameStatus,
+    totalWorkTime: frame.totalWorkTime,
+    powerOnTime: frame.powerOnTime,
+    offsetTime: frame.offsetTime,
+    frameTime: new Date(frameTime * 1000),
+    direction: frame.direction,
+    payloadLayout: frame.payloadLayout,
+    payload: frame.payload.toString("hex"),
+    rtuStartAt: frame.rtuStartAt,
+    rtu:
+      frame.payloadLayout === V5PayloadLayout.Modbus && frame.frameType !== V5FrameType.KeepAlive
+        ? optional(() => decodeRtuPayload(frame))
+        : null,
+    timeResponse: frame.timeResponse,
+    loggerData: optional(() => frame.dataFrame),
+    loggerInfo: optional(() => frame.loggerInfo),
+  };
+}
+
 /**
  * Decode a V5 frame and return a human-readable string.
  *
@@ -235,6 +499,18 @@ export function decode(hexBytes: string | string[]): string {
   lines.push(`Sequence numbers: (${seq1}, ${seq2}) (hex: ${seq1.toString(16).padStart(2, "0")} ${seq2.toString(16).padStart(2, "0")})`);
   lines.push(`Serial Hex: ${frame.serial.toString(16)}`);
   lines.push(`Serial: ${frame.serial}`);
+  lines.push(`Direction: ${frame.direction}`);
+
+  if (frame.payloadLayout === V5PayloadLayout.TimeResponse) {
+    const time = frame.timeResponse;
+    if (time) {
+      lines.push(`Time Response: ${time.timestamp.toISOString()} (offset: ${time.offset})`);
+    } else {
+      lines.push(`Payload: ${frame.payload.toString("hex")}`);
+    }
+    return lines.join("\n");
+  }
+
   lines.push(`Frame Type (${frame.frameTypeName}): ${frame.frameType}`);
   lines.push(`Frame Status: ${frame.frameStatus}`);
   lines.push(`Total Time: ${frame.totalWorkTime}`);
@@ -245,9 +521,43 @@ export function decode(hexBytes: string | string[]): string {
   const dateStr = new Date(frameTime * 1000).toISOString();
   lines.push(`Frame Time: ${dateStr}`);
 
-  if (frame.frameType !== V5FrameType.KeepAlive) {
-    lines.push(`Checksum: ${frame.frameCrc} hex: ${frame.frameCrc.toString(16).padStart(4, "0")} - RTU start at: ${frame.rtuHead}`);
-    lines.push(frame.payloadString());
+  switch (frame.payloadLayout) {
+    case V5PayloadLayout.Modbus:
+      if (frame.frameType !== V5FrameType.KeepAlive) {
+        lines.push(`Checksum: ${frame.frameCrc} hex: ${frame.frameCrc.toString(16).padStart(4, "0")} - RTU start at: ${frame.rtuHead}`);
+        lines.push(frame.payloadString());
+      }
+      break;
+    case V5PayloadLayout.Data: {
+      // Truncated or malformed payloads fall back to the raw hex dump
+      const data = optional(() => frame.dataFrame);
+      if (!data) {
+        lines.push(`Payload: ${frame.payload.toString("hex")}`);
+        break;
+      }
+      lines.push(`${"=".repeat(10)} Register blocks ${"=".repeat(10)}`);
+      for (const block of data.blocks) {
+        const start = block.start.toString(16).padStart(4, "0");
+        lines.push(`  0x${start} (${block.values.length}): ${block.values.join(", ")}`);
+      }
+      break;
+    }
+    case V5PayloadLayout.Info: {
+      const info = optional(() => frame.loggerInfo);
+      if (!info) {
+        lines.push(`Payload: ${frame.payload.toString("hex")}`);
+        break;
+      }
+      lines.push(`${"=".repeat(10)} Logger info ${"=".repeat(10)}`);
+      lines.push(`  Firmware: ${info.firmware ?? "-"}`);
+      lines.push(`  IP address: ${info.ipAddress ?? "-"}`);
+      lines.push(`  MAC address: ${info.macAddress ?? "-"}`);
+      lines.push(`  SSID: ${info.ssid ?? "-"}`);
+      lines.push(`  Signal strength: ${info.signalStrength}%`);
+      break;
+    }
+    default:
+      lines.push(`Payload: ${frame.payload.toString("hex")}`);
   }
 
   return lines.join("\n");
@@ -0,0 +1,320 @@
+/**
+ * ModbusTcpGateway – exposes a data logger as a standard Modbus TCP server.
+ *
+ * Modbus TCP clients (Home Assistant, mbpoll, SCADA software) send MBAP
+ * framed requests. Each request PDU is turned into a Modbus RTU frame,
+ * sent through the logger with `sendRawModbusFrame()`, and the RTU response
+ * (including exception responses) is checked against the request and
+ * wrapped back into an MBAP frame.
+ * Requests from all clients share the SolarmanV5 request queue.
+ */
+
+import net from "node:net";
+import { EventEmitter } from "node:events";
+import {
+  NoSocketAvailableError,
+  RequestCancelledError,
+  nullLogger,
+  createConsoleLogger,
+} from "./solarmanv5.js";
+import type { SolarmanV5, Logger, RequestOptions } from "./solarmanv5.js";
+import {
+  addCrc,
+  verifyCrc,
+  stripDoubleCrc,
+  parseResponse,
+  ModbusResponseMismatchError,
+  ModbusResponseLengthError,
+} from "./modbus.js";
+
+/** MBAP header length: transaction ID, protocol ID, length, unit ID */
+const MBAP_HEADER_LENGTH = 7;
+/** Largest MBAP length field allowed by the spec (unit ID + 253 byte PDU) */
+const MBAP_MAX_LENGTH = 254;
+
+/** Function codes whose responses `parseResponse()` validates in full */
+const PARSED_FUNCTION_CODES = new Set([0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x0f, 0x10, 0x16, 0x17]);
+
+/** Exception code when the logger connection is unavailable */
+const GATEWAY_PATH_UNAVAILABLE = 0x0a;
+/** Exception code when the inverter does not answer through the logger */
+const GATEWAY_TARGET_FAILED = 0x0b;
+
+// ---------- Options ----------
+
+export interface ModbusTcpGatewayOptions {
+  /** TCP port to listen on. Default: 502 */
+  port?: number;
+  /** Address to bind to. Default: "0.0.0.0" */
+  host?: string;
+  /**
+   * Modbus slave ID used on the RTU side. Default: the unit ID of each
+   * request, with 0 and 255 mapped to the client's `mbSlaveId`
+   */
+  unitId?: number;
+  /** Drop Modbus TCP clients that stay silent for this many seconds. Default: 300 */
+  socketTimeout?: number;
+  /** Options passed to every forwarded request (timeout, cancellation) */
+  request?: RequestOptions;
+  /** Enable verbose/debug logging. Default: false */
+  verbose?: boolean;
+  /** Custom logger instance */
+  logger?: Logger;
+}
+
+// ---------- Events ----------
+
+export interface ModbusTcpGatewayEvents {
+  listening: [address: net.AddressInfo];
+  /** Modbus TCP client connected */
+  connect: [remoteAddress: string];
+  /** Modbus TCP client disconnected */
+  disconnect: [remoteAddress: string];
+  /** A forwarded request failed; the client received a gateway exception */
+  error: [err: Error];
+}
+
+// ---------- Main class ----------
+
+export class ModbusTcpGateway extends EventEmitter<ModbusTcpGatewayEvents> {
+  public readonly port: number;
+  public readonly host: string;
+  public readonly unitId: number | undefined;
+  public readonly socketTimeout: number;
+
+  private readonly client: SolarmanV5;
+  private readonly requestOptions: RequestOptions | undefined;
+  private log: Logger;
+  private server: net.Server | null = null;
+  private readonly sockets = new Set<net.Socket>();
+
+  constructor(client: SolarmanV5, options: ModbusTcpGatewayOptions = {}) {
+    super();
+
+    this.client = client;
+    this.port = options.port ?? 502;
+    this.host = options.host ?? "0.0.0.0";
+    this.unitId = options.unitId;
+    this.socketTimeout = options.socketTimeout ?? 300;
+    this.requestOptions = options.request;
+
+    if (Number.isNaN(this.port)) {
+      throw new Error(`Invalid port: ${options.port}`);
+    }
+    if (
+      this.unitId !== undefined &&
+      (!Number.isInteger(this.unitId) || this.unitId < 0 || this.unitId > 255)
+    ) {
+      throw new Error(`Invalid unitId: ${options.unitId}`);
+    }
+    if (Number.isNaN(this.socketTimeout)) {
+      throw new Error(`Invalid socketTimeout: ${options.socketTimeout}`);
+    }
+
+    if (options.logger) {
+      this.log = options.logger;
+    } else if (options.verbose) {
+      this.log = createConsoleLogger();
+    } else {
+      this.log = nullLogger;
+    }
+  }
+
+  /** Number of connected Modbus TCP clients */
+  get connections(): number {
+    return this.sockets.size;
+  }
+
+  /** Address the gateway is bound to, or null if not listening */
+  address(): net.AddressInfo | null {
+    const address = this.server?.address();
+    return address && typeof address === "object" ? address : null;
+  }
+
+  // ---------- Lifecycle ----------
+
+  /** Start accepting Modbus TCP connections */
+  async listen(): Promise<void> {
+    if (this.server) return;
+
+    return new Promise<void>((resolve, reject) => {
+      const server = net.createServer((socket) => this.handleConnection(socket));
+
+      const onError = (err: Error) => {
+        server.removeListener("listening", onListening);
+        reject(err);
+      };
+
+      const onListening = () => {
+        server.removeListener("error", onError);
+        server.on("error", (err) => this.emit("error", err));
+        this.server = server;
+        const address = this.address()!;
+        this.log.debug(`Modbus TCP gateway listening on ${address.address}:${address.port}`);
+        this.emit("listening", address);
+        resolve();
+      };
+
+      server.once("error", onError);
+      server.once("listening", onListening);
+      server.listen(this.port, this.host);
+    });
+  }
+
+  /** Stop listening and drop all client connections */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+
+    return new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+
+  // ---------- Connection handling ----------
+
+  private handleConnection(socket: net.Socket): void {
+    const remoteAddress = `${socket.remoteAddress}:${socket.remotePort}`;
+    let buffer: Buffer = Buffer.alloc(0);
+
+    this.log.debug(`Modbus TCP client ${remoteAddress} connected`);
+    this.sockets.add(socket);
+    socket.setTimeout(this.socketTimeout * 1000);
+    this.emit("connect", remoteAddress);
+
+    socket.on("data", (data: Buffer) => {
+      this.log.debug(`[${remoteAddress}] MBAP RECD: ${data.toString("hex")}`);
+      buffer = Buffer.concat([buffer, data]);
+
+      while (buffer.length >= MBAP_HEADER_LENGTH) {
+        const length = buffer.readUInt16BE(4);
+        if (length < 2 || length > MBAP_MAX_LENGTH) {
+          // The stream can't be resynchronised without a valid length field
+          this.log.debug(`[${remoteAddress}] Invalid MBAP length ${length}, closing`);
+          socket.destroy();
+          return;
+        }
+        if (buffer.length < 6 + length) break;
+
+        const adu = buffer.subarray(0, 6 + length);
+        buffer = buffer.subarray(6 + length);
+        this.handleRequest(socket, remoteAddress, adu);
+      }
+    });
+
+    socket.on("close", () => {
+      this.sockets.delete(socket);
+      this.log.debug(`Modbus TCP client ${remoteAddress} disconnected`);
+      this.emit("disconnect", remoteAddress);
+    });
+
+    socket.on("error", (err: Error) => {
+      this.log.debug(`[${remoteAddress}] Socket error: ${err.message}`);
+    });
+
+    socket.on("timeout", () => {
+      this.log.debug(`[${remoteAddress}] Socket timeout`);
+      socket.destroy();
+    });
+  }
+
+  private handleRequest(
+    socket: net.Socket,
+    remoteAddress: string,
+    adu: Buffer
+  ): void {
+    const transactionId = adu.readUInt16BE(0);
+    const protocolId = adu.readUInt16BE(2);
+    const unitId = adu[6];
+    const pdu = adu.subarray(MBAP_HEADER_LENGTH);
+
+    if (protocolId !== 0) {
+      this.log.debug(`[${remoteAddress}] Ignoring non-Modbus protocol ID ${protocolId}`);
+      return;
+    }
+
+    this.forward(unitId, pdu).then((responsePdu) => {
+      const response = ModbusTcpGateway.mbapFrame(transactionId, unitId, responsePdu);
+      this.log.debug(`[${remoteAddress}] MBAP SENT: ${response.toString("hex")}`);
+      if (!socket.destroyed) {
+        socket.write(response);
+      }
+    });
+  }
+
+  /** Send a request PDU through the logger and return the response PDU */
+  private async forward(unitId: number, pdu: Buffer): Promise<Buffer> {
+    const slaveId =
+      this.unitId ?? (unitId === 0 || unitId === 255 ? this.client.mbSlaveId : unitId);
+    const functionCode = pdu[0];
+
+    try {
+      const request = addCrc(Buffer.concat([Buffer.from([slaveId]), pdu]));
+      const rtuResponse = await this.client.sendRawModbusFrame(request, this.requestOptions);
+      try {
+        return ModbusTcpGateway.responsePdu(rtuResponse, request);
+      } catch (err) {
+        // A CRC appended to a valid frame is 0x0000, so a double CRC passes
+        // the CRC check but fails the length check
+        const corrected = stripDoubleCrc(rtuResponse);
+        if (corrected.length === rtuResponse.length) throw err;
+        return ModbusTcpGateway.responsePdu(corrected, request);
+      }
+    } catch (err) {
+      const exceptionCode =
+        err instanceof NoSocketAvailableError || err instanceof RequestCancelledError
+          ? GATEWAY_PATH_UNAVAILABLE
+          : GATEWAY_TARGET_FAILED;
+      this.log.debug(
+        `Forwarding FC ${functionCode} failed (${(err as Error).message}), ` +
+          `returning exception ${exceptionCode}`
+      );
+      if (this.listenerCount("error") > 0) {
+        this.emit("error", err as Error);
+      }
+      return Buffer.from([functionCode | 0x80, exceptionCode]);
+    }
+  }
+
+  /**
+   * Check an RTU response against its request and return the response PDU.
+   * Exception responses are passed on to the Modbus TCP client as they are.
+   *
+   * @throws ModbusResponseMismatchError if the slave ID or function code does not match
+   * @throws ModbusResponseLengthError if the response is truncated or too long
+   */
+  static responsePdu(response: Buffer, request: Buffer): Buffer {
+    const functionCode = request[1];
+    if (!verifyCrc(response)) {
+      throw new Error("Modbus response CRC verification failed");
+    }
+    if (response[0] !== request[0]) {
+      throw new ModbusResponseMismatchError("slaveId", request[0], response[0]);
+    }
+    if (response[1] === (functionCode | 0x80)) {
+      if (response.length !== 5) {
+        throw new ModbusResponseLengthError(functionCode, 5, response.length);
+      }
+    } else if (PARSED_FUNCTION_CODES.has(functionCode)) {
+      parseResponse(response, request);
+    } else if (response[1] !== functionCode) {
+      throw new ModbusResponseMismatchError("functionCode", functionCode, response[1]);
+    }
+    return response.subarray(1, response.length - 2);
+  }
+
+  /** Wrap a PDU in an MBAP header */
+  static mbapFrame(transactionId: number, unitId: number, pdu: Buffer): Buffer {
+    const header = Buffer.alloc(MBAP_HEADER_LENGTH);
+    header.writeUInt16BE(transactionId, 0);
+    header.writeUInt16BE(0, 2);
+    header.writeUInt16BE(pdu.length + 1, 4);
+    header[6] = unitId;
+    return Buffer.concat([header, pdu]);
+  }
+}
@@ -8,21 +8,149 @@ export {
   SolarmanV5,
   ControlCode,
   V5FrameError,
+  V5ChecksumError,
+  V5SequenceError,
+  V5SerialMismatchError,
+  LoggerNoResponseError,
+  TimeoutError,
   NoSocketAvailableError,
+  RequestCancelledError,
 } from "./solarmanv5.js";
 
 export type {
   SolarmanV5Options,
+  RequestOptions,
   FormatOptions,
   Logger,
 } from "./solarmanv5.js";
 
+// Transports
+export { TcpTransport, StreamTransport } from "./transport.js";
+
+export type {
+  Transport,
+  TransportEvents,
+  TcpTransportOptions,
+  StreamSource,
+} from "./transport.js";
+
+// Logger push receiver ("Server B")
+export { SolarmanV5Server } from "./server.js";
+
+export type {
+  SolarmanV5ServerOptions,
+  SolarmanV5ServerEvents,
+  LoggerFrame,
+} from "./server.js";
+
+// Logger push frame payloads
+export {
+  parseDataFrame,
+  parseInfoFrame,
+  registerBlocksToMap,
+} from "./payloads.js";
+
+export type {
+  LoggerDataFrame,
+  LoggerInfo,
+  RegisterBlock,
+} from "./payloads.js";
+
+// V5 stream reassembly
+export { V5FrameAccumulator } from "./stream.js";
+
+export type { V5FrameAccumulatorOptions } from "./stream.js";
+
+// Register maps
+export {
+  loadRegisterMap,
+  parseRegisterMap,
+  decodeRegisterMap,
+  decodeField,
+  registerMapBlocks,
+  formatRegisters,
+  RegisterMapError,
+} from "./registermap.js";
+
+export type {
+  RegisterMap,
+  RegisterField,
+  RegisterDataType,
+  RegisterTable,
+  RegisterFieldValue,
+  RegisterMapResult,
+  RegisterMapBlock,
+} from "./registermap.js";
+
+// Built-in device profiles
+export { SRNE_SPH10048P, PROFILES } from "./profiles.js";
+
+// Read planner
+export { planReads } from "./planner.js";
+
+export type {
+  ReadPlanOptions,
+  PlannedRead,
+  RegisterRange,
+} from "./planner.js";
+
+// Periodic polling
+export { Poller } from "./poller.js";
+
+export type {
+  PollGroup,
+  PollerOptions,
+  PollerClient,
+  PollSample,
+  PollChange,
+  PollChangeEvent,
+  PollerEvents,
+} from "./poller.js";
+
+// Modbus TCP gateway
+export { ModbusTcpGateway } from "./gateway.js";
+
+export type {
+  ModbusTcpGatewayOptions,
+  ModbusTcpGatewayEvents,
+} from "./gateway.js";
+
+// Logger simulator
+export { SolarmanV5Simulator } from "./simulator.js";
+
+export type {
+  SolarmanV5SimulatorOptions,
+  SolarmanV5SimulatorEvents,
+  SimulatorRegisterBank,
+  SimulatorRegisterValues,
+  SimulatorFault,
+  SimulatorRequest,
+} from "./simulator.js";
+
+// Session capture and replay
+export {
+  CaptureRecorder,
+  CaptureError,
+  loadCapture,
+  parseCapture,
+  formatCaptureEntry,
+} from "./capture.js";
+export { CaptureReplayServer, ReplayTransport } from "./replay.js";
+
+export type { CaptureEntry, CaptureDirection } from "./capture.js";
+export type {
+  CaptureReplayServerOptions,
+  CaptureReplayServerEvents,
+  ReplayTransportOptions,
+} from "./replay.js";
+
 // Modbus RTU utilities
 export {
   crc16,
   getCrc,
   addCrc,
   verifyCrc,
+  stripDoubleCrc,
   readCoils,
   readDiscreteInputs,
   readHoldingRegisters,
@@ -31,8 +159,31 @@ export {
   writeSingleRegister,
   writeMultipleCoils,
   writeMultipleRegisters,
+  maskWriteRegister,
+  readWriteMultipleRegisters,
+  readDeviceIdentification,
+  parseResponse,
   parseResponseAdu,
+  responseValues,
+  parseDeviceIdentificationAdu,
+  DeviceIdCode,
+  DEVICE_ID_OBJECT_NAMES,
   ModbusError,
+  ModbusExceptionError,
+  ModbusResponseMismatchError,
+  ModbusResponseLengthError,
+} from "./modbus.js";
+
+export type {
+  ModbusResponse,
+  ModbusResponseField,
+  ReadBitsResponse,
+  ReadRegistersResponse,
+  WriteSingleResponse,
+  WriteMultipleResponse,
+  MaskWriteResponse,
+  DeviceIdentification,
+  DeviceIdentificationResponse,
 } from "./modbus.js";
 
 // Discovery utilities
@@ -44,6 +195,63 @@ export {
   V5Frame,
   V5CtrlCode,
   V5FrameType,
+  V5Direction,
+  V5PayloadLayout,
   decode,
+  decodeToObject,
 } from "./decoder.js";
 
+export type { DecodedV5Frame, DecodedRtuPayload } from "./decoder.js";
+
+// Packet capture analysis
+export {
+  parsePcap,
+  analyzePcap,
+  analyzePcapFile,
+  formatTimeline,
+  PcapError,
+} from "./pcap.js";
+
+export type {
+  PcapPacket,
+  PcapAnalysis,
+  PcapAnalysisOptions,
+  TimelineEntry,
+} from "./pcap.js";
+
+// CLI configuration
+export {
+  defaultConfigPath,
+  parseConfig,
+  loadConfig,
+  profileFromEnv,
+  resolveConnection,
+  ConfigError,
+} from "./config.js";
+
+export type {
+  LoggerProfile,
+  CliConfig,
+  ConnectionSettings,
+  ResolveConnectionOptions,
+} from "./config.js";
+
+// CLI output formatting
+export {
+  formatRows,
+  formatRecord,
+  registerRows,
+  bitRows,
+  hex16,
+  OUTPUT_FORMATS,
+} from "./output.js";
+
+export type { OutputFormat, OutputRow, RegisterRow, BitRow } from "./output.js";
+
+// CLI and shell argument parsing
+export { parseNumber, parseCoil, ArgumentError } from "./args.js";
+
+// Interactive shell
+export { SolarmanShell, ShellError } from "./shell.js";
+
+export type { SolarmanShellOptions } from "./shell.js";
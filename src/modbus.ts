@@ -4,8 +4,8 @@
  * This module replaces the Python `umodbus` dependency by implementing the
  * subset of Modbus RTU needed by SolarmanV5:
  *   - CRC-16/Modbus calculation
- *   - Request frame builders for function codes 1-6, 15, 16
- *   - Response ADU parser
+ *   - Request frame builders for function codes 1-6, 15, 16, 22, 23 and 43/14
+ *   - Response ADU parsers
  */
 
 // ---------- CRC-16/Modbus lookup table ----------
@@ -50,6 +50,20 @@ export function verifyCrc(frame: Buffer): boolean {
   return computed[0] === expected[0] && computed[1] === expected[1];
 }
 
+/**
+ * Strip the extra zeroes of a frame that has its CRC applied twice. Returns
+ * the frame unchanged if it does not look like one.
+ * See https://github.com/jmccrohan/pysolarmanv5/issues/62
+ */
+export function stripDoubleCrc(frame: Buffer): Buffer {
+  if (frame.length < 4) return frame;
+  if (frame[frame.length - 1] !== 0x00 || frame[frame.length - 2] !== 0x00) {
+    return frame;
+  }
+  const stripped = frame.subarray(0, frame.length - 2);
+  return verifyCrc(stripped) ? stripped : frame;
+}
+
 // ---------- Modbus exception mapping ----------
 
 export const MODBUS_EXCEPTION_NAMES: Record<number, string> = {
@@ -59,8 +73,13 @@ export const MODBUS_EXCEPTION_NAMES: Record<number, string> = {
   4: "ServerDeviceFailure",
   5: "Acknowledge",
   6: "ServerDeviceBusy",
+  7: "NegativeAcknowledge",
+  8: "MemoryParityError",
+  10: "GatewayPathUnavailable",
+  11: "GatewayTargetDeviceFailedToRespond",
 };
 
+/** Base class for Modbus exception responses */
 export class ModbusError extends Error {
   public readonly exceptionCode: number;
   constructor(exceptionCode: number) {
@@ -72,6 +91,18 @@ export class ModbusError extends Error {
   }
 }
 
+/** The device answered a request with a Modbus exception response */
+export class ModbusExceptionError extends ModbusError {
+  /** Function code of the request that was rejected */
+  public readonly functionCode: number;
+  constructor(exceptionCode: number, functionCode: number) {
+    super(exceptionCode);
+    this.name = "ModbusExceptionError";
+    this.message += ` (FC ${functionCode})`;
+    this.functionCode = functionCode;
+  }
+}
+
 // ---------- Request frame builders ----------
 
 /**
@@ -200,33 +231,287 @@ export function writeMultipleRegisters(
   return buildRequest(slaveId, 0x10, data);
 }
 
-// ---------- Response ADU parsing ----------
+/**
+ * FC 22 – Mask Write Register.
+ * The device writes (current AND andMask) OR (orMask AND NOT andMask).
+ */
+export function maskWriteRegister(
+  slaveId: number,
+  addr: number,
+  andMask: number,
+  orMask: number
+): Buffer {
+  const data = Buffer.alloc(6);
+  data.writeUInt16BE(addr, 0);
+  data.writeUInt16BE(andMask, 2);
+  data.writeUInt16BE(orMask, 4);
+  return buildRequest(slaveId, 0x16, data);
+}
+
+/** FC 23 – Read/Write Multiple Registers. The write is performed before the read */
+export function readWriteMultipleRegisters(
+  slaveId: number,
+  readAddr: number,
+  readQuantity: number,
+  writeAddr: number,
+  values: number[]
+): Buffer {
+  const byteCount = values.length * 2;
+  const data = Buffer.alloc(9 + byteCount);
+  data.writeUInt16BE(readAddr, 0);
+  data.writeUInt16BE(readQuantity, 2);
+  data.writeUInt16BE(writeAddr, 4);
+  data.writeUInt16BE(values.length, 6);
+  data[8] = byteCount;
+  for (let i = 0; i < values.length; i++) {
+    data.writeUInt16BE(values[i], 9 + i * 2);
+  }
+  return buildRequest(slaveId, 0x17, data);
+}
+
+// ---------- Device identification ----------
+
+/** MEI type of Read Device Identification within FC 43 */
+const MEI_READ_DEVICE_ID = 0x0e;
+
+/** Read Device ID codes: which objects to stream, or one individual object */
+export const DeviceIdCode = {
+  BASIC: 0x01,
+  REGULAR: 0x02,
+  EXTENDED: 0x03,
+  INDIVIDUAL: 0x04,
+} as const;
+
+/** Standard device identification object IDs */
+export const DEVICE_ID_OBJECT_NAMES: Record<number, string> = {
+  0x00: "VendorName",
+  0x01: "ProductCode",
+  0x02: "MajorMinorRevision",
+  0x03: "VendorUrl",
+  0x04: "ProductName",
+  0x05: "ModelName",
+  0x06: "UserApplicationName",
+};
+
+/** FC 43 / MEI 14 – Read Device Identification */
+export function readDeviceIdentification(
+  slaveId: number,
+  readDeviceIdCode: number = DeviceIdCode.EXTENDED,
+  objectId = 0
+): Buffer {
+  const data = Buffer.from([MEI_READ_DEVICE_ID, readDeviceIdCode, objectId]);
+  return buildRequest(slaveId, 0x2b, data);
+}
+
+/** Identification of a device, collected from all its objects */
+export interface DeviceIdentification {
+  vendorName: string;
+  productCode: string;
+  /** Major/minor revision */
+  revision: string;
+  vendorUrl?: string;
+  productName?: string;
+  modelName?: string;
+  userApplicationName?: string;
+  /** Identification level and access types the device supports */
+  conformityLevel: number;
+  /** Every object received, including private objects (0x80-0xFF) */
+  objects: Map<number, Buffer>;
+}
+
+/** One Read Device Identification response */
+export interface DeviceIdentificationResponse {
+  readDeviceIdCode: number;
+  /** Identification level and access types the device supports */
+  conformityLevel: number;
+  /** More objects are available in a further request */
+  moreFollows: boolean;
+  /** Object ID to request next when `moreFollows` is set */
+  nextObjectId: number;
+  objects: { id: number; value: Buffer }[];
+}
 
 /**
- * Parse a Modbus RTU response ADU.
- *
- * Validates CRC, checks for exception responses, and extracts register/coil
- * values based on the function code of the original request.
+ * Parse a Read Device Identification (FC 43 / MEI 14) response ADU.
  *
  * @param response  The raw Modbus RTU response frame
- * @param request   The original request frame (used to determine expected FC
- *                  and quantity)
- * @returns Array of register values (16-bit) or coil/discrete input values
+ * @param request   The original request frame
  */
-export function parseResponseAdu(
+export function parseDeviceIdentificationAdu(
   response: Buffer,
   request: Buffer
-): number[] {
+): DeviceIdentificationResponse {
   if (response.length < 5) {
-    throw new ModbusError(response.length > 2 ? response[2] : 0);
+    throw new ModbusExceptionError(response.length > 2 ? response[2] : 0, request[1]);
+  }
+  if (response[1] === request[1] + 0x80) {
+    throw new ModbusExceptionError(response[2], request[1]);
   }
+  if (!verifyCrc(response)) {
+    throw new Error("Modbus response CRC verification failed");
+  }
+  if (response[1] !== 0x2b || response[2] !== MEI_READ_DEVICE_ID) {
+    throw new Error(
+      `Unexpected response to Read Device Identification: FC 0x${response[1].toString(16)}`
+    );
+  }
+
+  const end = response.length - 2;
+  if (end < 8) {
+    throw new Error("Read Device Identification response is truncated");
+  }
+  const count = response[7];
+  const objects: { id: number; value: Buffer }[] = [];
+  let offset = 8;
+  for (let i = 0; i < count; i++) {
+    if (offset + 2 > end || offset + 2 + response[offset + 1] > end) {
+      throw new Error("Read Device Identification response is truncated");
+    }
+    const length = response[offset + 1];
+    objects.push({
+      id: response[offset],
+      value: Buffer.from(response.subarray(offset + 2, offset + 2 + length)),
+    });
+    offset += 2 + length;
+  }
+
+  return {
+    readDeviceIdCode: response[3],
+    conformityLevel: response[4],
+    moreFollows: response[5] === 0xff,
+    nextObjectId: response[6],
+    objects,
+  };
+}
+
+// ---------- Response types ----------
 
+/** FC 1/2 – coil or discrete input states, one 0/1 value per requested bit */
+export interface ReadBitsResponse {
+  functionCode: 0x01 | 0x02;
+  slaveId: number;
+  byteCount: number;
+  values: number[];
+}
+
+/** FC 3/4/23 – register values */
+export interface ReadRegistersResponse {
+  functionCode: 0x03 | 0x04 | 0x17;
+  slaveId: number;
+  byteCount: number;
+  values: number[];
+}
+
+/** FC 5/6 – echo of the written address and value */
+export interface WriteSingleResponse {
+  functionCode: 0x05 | 0x06;
+  slaveId: number;
+  address: number;
+  value: number;
+}
+
+/** FC 15/16 – echo of the start address and quantity written */
+export interface WriteMultipleResponse {
+  functionCode: 0x0f | 0x10;
+  slaveId: number;
+  address: number;
+  quantity: number;
+}
+
+/** FC 22 – echo of the address and masks */
+export interface MaskWriteResponse {
+  functionCode: 0x16;
+  slaveId: number;
+  address: number;
+  andMask: number;
+  orMask: number;
+}
+
+/** Parsed Modbus RTU response, discriminated by `functionCode` */
+export type ModbusResponse =
+  | ReadBitsResponse
+  | ReadRegistersResponse
+  | WriteSingleResponse
+  | WriteMultipleResponse
+  | MaskWriteResponse;
+
+export type ModbusResponseField =
+  | "slaveId"
+  | "functionCode"
+  | "byteCount"
+  | "address"
+  | "value"
+  | "quantity"
+  | "andMask"
+  | "orMask";
+
+/** A response field does not match the request it answers */
+export class ModbusResponseMismatchError extends Error {
+  public readonly field: ModbusResponseField;
+  public readonly expected: number;
+  public readonly actual: number;
+  constructor(field: ModbusResponseField, expected: number, actual: number) {
+    super(`Modbus response ${field} mismatch: expected ${expected}, got ${actual}`);
+    this.name = "ModbusResponseMismatchError";
+    this.field = field;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/** A response is shorter or longer than its function code requires */
+export class ModbusResponseLengthError extends Error {
+  public readonly expectedLength: number;
+  public readonly actualLength: number;
+  constructor(functionCode: number, expectedLength: number, actualLength: number) {
+    super(
+      `Modbus FC ${functionCode} response length mismatch: ` +
+        `expected ${expectedLength} bytes, got ${actualLength}`
+    );
+    this.name = "ModbusResponseLengthError";
+    this.expectedLength = expectedLength;
+    this.actualLength = actualLength;
+  }
+}
+
+// ---------- Response ADU parsing ----------
+
+function expectField(field: ModbusResponseField, expected: number, actual: number): void {
+  if (expected !== actual) {
+    throw new ModbusResponseMismatchError(field, expected, actual);
+  }
+}
+
+function expectLength(response: Buffer, expectedLength: number): void {
+  if (response.length !== expectedLength) {
+    throw new ModbusResponseLengthError(response[1], expectedLength, response.length);
+  }
+}
+
+/**
+ * Parse and validate a Modbus RTU response ADU.
+ *
+ * Validates CRC, checks for exception responses, and checks that the slave
+ * ID, function code, byte count, length and echoed fields match the
+ * request.
+ *
+ * @param response  The raw Modbus RTU response frame
+ * @param request   The original request frame
+ * @returns Typed response, discriminated by `functionCode`
+ * @throws ModbusExceptionError on an exception response
+ * @throws ModbusResponseMismatchError if a field does not match the request
+ * @throws ModbusResponseLengthError if the response is truncated or too long
+ */
+export function parseResponse(response: Buffer, request: Buffer): ModbusResponse {
   // Check for exception response (FC + 0x80)
   const requestFc = request[1];
   const responseFc = response[1];
 
+  if (response.length < 5) {
+    throw new ModbusExceptionError(response.length > 2 ? response[2] : 0, requestFc);
+  }
   if (responseFc === requestFc + 0x80) {
-    throw new ModbusError(response[2]);
+    throw new ModbusExceptionError(response[2], requestFc);
   }
 
   // Verify CRC
@@ -234,46 +519,115 @@ export function parseResponseAdu(
     throw new Error("Modbus response CRC verification failed");
   }
 
+  const slaveId = response[0];
+  expectField("slaveId", request[0], slaveId);
+  expectField("functionCode", requestFc, responseFc);
+
   // Parse based on function code
   switch (responseFc) {
     case 0x01: // Read Coils
     case 0x02: {
       // Read Discrete Inputs
-      const byteCount = response[2];
       const quantity = request.readUInt16BE(4);
+      const byteCount = response[2];
+      expectField("byteCount", Math.ceil(quantity / 8), byteCount);
+      expectLength(response, 5 + byteCount);
       const values: number[] = [];
       for (let i = 0; i < quantity; i++) {
         const byteIdx = Math.floor(i / 8);
         const bitIdx = i % 8;
         values.push((response[3 + byteIdx] >> bitIdx) & 1);
       }
-      return values;
+      return { functionCode: responseFc, slaveId, byteCount, values };
     }
     case 0x03: // Read Holding Registers
-    case 0x04: {
-      // Read Input Registers
+    case 0x04: // Read Input Registers
+    case 0x17: {
+      // Read/Write Multiple Registers (read quantity at the same offset)
+      const quantity = request.readUInt16BE(4);
       const byteCount = response[2];
-      const regCount = byteCount / 2;
+      expectField("byteCount", quantity * 2, byteCount);
+      expectLength(response, 5 + byteCount);
       const values: number[] = [];
-      for (let i = 0; i < regCount; i++) {
+      for (let i = 0; i < quantity; i++) {
         values.push(response.readUInt16BE(3 + i * 2));
       }
-      return values;
+      return { functionCode: responseFc, slaveId, byteCount, values };
     }
     case 0x05: // Write Single Coil
     case 0x06: {
       // Write Single Register
+      expectLength(response, 8);
+      const address = response.readUInt16BE(2);
       const value = response.readUInt16BE(4);
-      return [value];
+      expectField("address", request.readUInt16BE(2), address);
+      expectField("value", request.readUInt16BE(4), value);
+      return { functionCode: responseFc, slaveId, address, value };
     }
     case 0x0f: // Write Multiple Coils
     case 0x10: {
       // Write Multiple Registers
-      const startAddr = response.readUInt16BE(2);
+      expectLength(response, 8);
+      const address = response.readUInt16BE(2);
       const quantity = response.readUInt16BE(4);
-      return [quantity];
+      expectField("address", request.readUInt16BE(2), address);
+      expectField("quantity", request.readUInt16BE(4), quantity);
+      return { functionCode: responseFc, slaveId, address, quantity };
+    }
+    case 0x16: {
+      // Mask Write Register
+      expectLength(response, 10);
+      const address = response.readUInt16BE(2);
+      const andMask = response.readUInt16BE(4);
+      const orMask = response.readUInt16BE(6);
+      expectField("address", request.readUInt16BE(2), address);
+      expectField("andMask", request.readUInt16BE(4), andMask);
+      expectField("orMask", request.readUInt16BE(6), orMask);
+      return { functionCode: responseFc, slaveId, address, andMask, orMask };
     }
     default:
       throw new Error(`Unsupported Modbus function code: 0x${responseFc.toString(16)}`);
   }
 }
+
+/**
+ * Flatten a parsed response into the array form returned by
+ * `parseResponseAdu()`: read values, `[value]` for FC 5/6, `[quantity]` for
+ * FC 15/16 and `[andMask, orMask]` for FC 22.
+ */
+export function responseValues(response: ModbusResponse): number[] {
+  switch (response.functionCode) {
+    case 0x01:
+    case 0x02:
+    case 0x03:
+    case 0x04:
+    case 0x17:
+      return response.values;
+    case 0x05:
+    case 0x06:
+      return [response.value];
+    case 0x0f:
+    case 0x10:
+      return [response.quantity];
+    case 0x16:
+      return [response.andMask, response.orMask];
+  }
+}
+
+/**
+ * Parse a Modbus RTU response ADU into an array of values.
+ *
+ * Thin wrapper around `parseResponse()` and `responseValues()`, with the
+ * same validation.
+ *
+ * @param response  The raw Modbus RTU response frame
+ * @param request   The original request frame (used to determine expected FC
+ *                  and quantity)
+ * @returns Array of register values (16-bit) or coil/discrete input values
+ */
+export function parseResponseAdu(
+  response: Buffer,
+  request: Buffer
+): number[] {
+  return responseValues(parseResponse(response, request));
+}
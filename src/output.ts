@@ -0,0 +1,150 @@
+/**
+ * Output formatting for the CLI – renders result rows as an aligned table,
+ * JSON, CSV or newline-delimited JSON.
+ */
+
+import { twosComplement } from "./registermap.js";
+
+// ---------- Types ----------
+
+export type OutputFormat = "table" | "json" | "csv" | "ndjson";
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ["table", "json", "csv", "ndjson"];
+
+/**
+ * One result row: a plain object whose properties are the columns. Nested
+ * values are JSON-encoded in table and CSV cells
+ */
+export type OutputRow = object;
+
+/** A register read, annotated with its address */
+export interface RegisterRow {
+  address: number;
+  addressHex: string;
+  value: number;
+  hex: string;
+  signed: number;
+  scaled: number;
+}
+
+/** A coil or discrete input read, annotated with its address */
+export interface BitRow {
+  address: number;
+  addressHex: string;
+  value: number;
+}
+
+// ---------- Rows ----------
+
+export function hex16(value: number): string {
+  return `0x${value.toString(16).padStart(4, "0")}`;
+}
+
+/**
+ * Annotate consecutive register values with their address, hex, signed
+ * (16-bit 2s complement) and scaled representations
+ */
+export function registerRows(start: number, values: number[], scale = 1): RegisterRow[] {
+  return values.map((value, i) => ({
+    address: start + i,
+    addressHex: hex16(start + i),
+    value,
+    hex: hex16(value),
+    signed: twosComplement(value, 16),
+    // Round away binary noise such as 0.30000000000000004
+    scaled: Number((value * scale).toPrecision(12)),
+  }));
+}
+
+/** Annotate consecutive coil or discrete input values with their address */
+export function bitRows(start: number, values: number[]): BitRow[] {
+  return values.map((value, i) => ({
+    address: start + i,
+    addressHex: hex16(start + i),
+    value,
+  }));
+}
+
+// ---------- Formatting ----------
+
+function cell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function csvCell(value: unknown): string {
+  const text = cell(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function valueOf(row: OutputRow, column: string): unknown {
+  return (row as Record<string, unknown>)[column];
+}
+
+/** Columns of `rows`, in order of first appearance */
+function columnsOf(rows: OutputRow[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return [...columns];
+}
+
+function formatTable(rows: OutputRow[], columns: string[]): string {
+  const cells = rows.map((row) => columns.map((column) => cell(valueOf(row, column))));
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((line) => line[i].length))
+  );
+  // Right-align numeric columns
+  const numeric = columns.map((column) =>
+    rows.every((row) => {
+      const value = valueOf(row, column);
+      return value === null || value === undefined || typeof value === "number";
+    })
+  );
+  const pad = (text: string, i: number) =>
+    numeric[i] ? text.padStart(widths[i]) : text.padEnd(widths[i]);
+
+  const lines = [
+    columns.map(pad).join("  "),
+    widths.map((width) => "-".repeat(width)).join("  "),
+    ...cells.map((line) => line.map(pad).join("  ")),
+  ];
+  return lines.map((line) => line.trimEnd()).join("\n");
+}
+
+/**
+ * Render rows in the given format. `json` yields an array, `ndjson` one
+ * object per line, `csv` a header line followed by one line per row.
+ *
+ * @param columns  Column order for table and CSV. Default: order of first appearance
+ */
+export function formatRows(
+  rows: OutputRow[],
+  format: OutputFormat,
+  columns: string[] = columnsOf(rows)
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(rows, null, 2);
+    case "ndjson":
+      return rows.map((row) => JSON.stringify(row)).join("\n");
+    case "csv":
+      return [
+        columns.map(csvCell).join(","),
+        ...rows.map((row) => columns.map((column) => csvCell(valueOf(row, column))).join(",")),
+      ].join("\n");
+    case "table":
+      return formatTable(rows, columns);
+  }
+}
+
+/**
+ * Render a single result. Like `formatRows` with one row, except that
+ * `json` yields the object itself rather than an array
+ */
+export function formatRecord(record: OutputRow, format: OutputFormat): string {
+  return format === "json" ? JSON.stringify(record, null, 2) : formatRows([record], format);
+}
@@ -0,0 +1,220 @@
+/**
+ * Parsers for the payloads of logger-initiated V5 frames.
+ *
+ * When a data logging stick pushes to a server (see `SolarmanV5Server`) it
+ * sends DATA frames carrying the register values it collected from the
+ * inverter, and INFO frames describing itself. Both payloads start with the
+ * same 15-byte preamble as a V5 request:
+ *
+ *   Frame type (1B)
+ *   Sensor type (2B LE)
+ *   Total working time (4B LE)
+ *   Power on time (4B LE)
+ *   Offset time (4B LE)
+ *
+ * DATA (0x42) frames continue with one or more register blocks:
+ *
+ *   Start address (2B BE)
+ *   Register count (2B BE)
+ *   Register values (count x 2B BE)
+ *
+ * INFO (0x43) frames continue with the WiFi signal strength (1B, percent)
+ * and a run of NUL-padded ASCII fields (firmware version, IP address, MAC,
+ * SSID, ...). The order and width of those fields differ between logger
+ * firmwares, so they are recognised by content rather than by offset.
+ */
+
+const V5_HEADER_LEN = 11;
+const V5_TRAILER_LEN = 2;
+const PREAMBLE_LEN = 15;
+const DATA_CONTROL_CODE = 0x42;
+const INFO_CONTROL_CODE = 0x43;
+
+const FIRMWARE_PATTERN = /^[A-Z][A-Z0-9]*_[0-9A-Z]+_[0-9A-Z_.]+$/;
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const MAC_PATTERN = /^([0-9A-Fa-f]{2}[:-]?){5}[0-9A-Fa-f]{2}$/;
+
+// ---------- Types ----------
+
+/** A contiguous range of registers embedded in a DATA frame */
+export interface RegisterBlock {
+  /** Address of the first register */
+  start: number;
+  /** Register values (16-bit) */
+  values: number[];
+}
+
+/** Decoded contents of a DATA (0x42) frame */
+export interface LoggerDataFrame {
+  /** Logger serial number */
+  serial: number;
+  /** Sequence number sent by the logger */
+  sequence: number;
+  /** Frame type byte */
+  frameType: number;
+  /** Sensor type */
+  sensorType: number;
+  /** Total working time in seconds */
+  totalWorkTime: number;
+  /** Power on time in seconds */
+  powerOnTime: number;
+  /** Offset time in seconds */
+  offsetTime: number;
+  /** Frame time (total working time + power on time + offset time) */
+  timestamp: Date;
+  /** Register blocks in the order they appear in the frame */
+  blocks: RegisterBlock[];
+}
+
+/** Decoded contents of an INFO (0x43) frame */
+export interface LoggerInfo {
+  /** Logger serial number */
+  serial: number;
+  /** Sequence number sent by the logger */
+  sequence: number;
+  /** Firmware version (e.g. "LSW5_01_2421_SS_00_00.00.00.06") */
+  firmware: string | null;
+  /** IP address of the logger */
+  ipAddress: string | null;
+  /** MAC address of the logger */
+  macAddress: string | null;
+  /** SSID of the WiFi network the logger is connected to */
+  ssid: string | null;
+  /** WiFi signal strength in percent */
+  signalStrength: number;
+  /** All text fields found in the payload, in order */
+  fields: string[];
+}
+
+// ---------- Parsers ----------
+
+/**
+ * Parse a DATA (0x42) frame into its register blocks.
+ *
+ * @param frame  Complete V5 frame (header, payload and trailer)
+ * @returns Decoded data frame
+ */
+export function parseDataFrame(frame: Buffer): LoggerDataFrame {
+  if (frame.length < V5_HEADER_LEN + PREAMBLE_LEN + V5_TRAILER_LEN) {
+    throw new Error(`DATA frame too short: ${frame.length} bytes`);
+  }
+  if (frame[4] !== DATA_CONTROL_CODE) {
+    throw new Error(
+      `Not a DATA frame: control code 0x${frame[4].toString(16)}`
+    );
+  }
+
+  const payload = frame.subarray(V5_HEADER_LEN, frame.length - V5_TRAILER_LEN);
+  const totalWorkTime = payload.readUInt32LE(3);
+  const powerOnTime = payload.readUInt32LE(7);
+  const offsetTime = payload.readUInt32LE(11);
+
+  const blocks: RegisterBlock[] = [];
+  let offset = PREAMBLE_LEN;
+  // Anything shorter than a block header is padding
+  while (offset + 4 <= payload.length) {
+    const start = payload.readUInt16BE(offset);
+    const count = payload.readUInt16BE(offset + 2);
+    offset += 4;
+    if (offset + count * 2 > payload.length) {
+      throw new Error(
+        `DATA frame register block at 0x${start.toString(16).padStart(4, "0")} ` +
+          `is truncated (expected ${count} registers)`
+      );
+    }
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      values.push(payload.readUInt16BE(offset + i * 2));
+    }
+    blocks.push({ start, values });
+    offset += count * 2;
+  }
+
+  return {
+    serial: frame.readUInt32LE(7),
+    sequence: frame[5],
+    frameType: payload[0],
+    sensorType: payload.readUInt16LE(1),
+    totalWorkTime,
+    powerOnTime,
+    offsetTime,
+    timestamp: new Date((totalWorkTime + powerOnTime + offsetTime) * 1000),
+    blocks,
+  };
+}
+
+/**
+ * Parse an INFO (0x43) frame into logger firmware/network metadata.
+ *
+ * @param frame  Complete V5 frame (header, payload and trailer)
+ * @returns Decoded logger information
+ */
+export function parseInfoFrame(frame: Buffer): LoggerInfo {
+  if (frame.length < V5_HEADER_LEN + PREAMBLE_LEN + 1 + V5_TRAILER_LEN) {
+    throw new Error(`INFO frame too short: ${frame.length} bytes`);
+  }
+  if (frame[4] !== INFO_CONTROL_CODE) {
+    throw new Error(
+      `Not an INFO frame: control code 0x${frame[4].toString(16)}`
+    );
+  }
+
+  const payload = frame.subarray(V5_HEADER_LEN, frame.length - V5_TRAILER_LEN);
+  const fields = asciiFields(payload.subarray(PREAMBLE_LEN + 1));
+
+  const firmware = fields.find((f) => FIRMWARE_PATTERN.test(f)) ?? null;
+  const ipAddress = fields.find(isIpv4Address) ?? null;
+  const macAddress = fields.find((f) => MAC_PATTERN.test(f)) ?? null;
+  const ssid =
+    fields.find(
+      (f) => f !== firmware && f !== ipAddress && f !== macAddress
+    ) ?? null;
+
+  return {
+    serial: frame.readUInt32LE(7),
+    sequence: frame[5],
+    firmware,
+    ipAddress,
+    macAddress,
+    ssid,
+    signalStrength: payload[PREAMBLE_LEN],
+    fields,
+  };
+}
+
+/** Split a buffer into its runs of printable ASCII (at least 2 chars long) */
+function asciiFields(data: Buffer): string[] {
+  const fields: string[] = [];
+  let start = -1;
+  for (let i = 0; i <= data.length; i++) {
+    const printable = i < data.length && data[i] >= 0x20 && data[i] < 0x7f;
+    if (printable && start === -1) {
+      start = i;
+    } else if (!printable && start !== -1) {
+      if (i - start >= 2) {
+        fields.push(data.subarray(start, i).toString("ascii").trim());
+      }
+      start = -1;
+    }
+  }
+  return fields.filter((f) => f.length > 0);
+}
+
+function isIpv4Address(value: string): boolean {
+  const match = IPV4_PATTERN.exec(value);
+  return match !== null && match.slice(1).every((octet) => Number(octet) <= 255);
+}
+
+/**
+ * Flatten register blocks into a map of register address to value.
+ * Later blocks overwrite earlier ones if they overlap.
+ */
+export function registerBlocksToMap(
+  blocks: RegisterBlock[]
+): Map<number, number> {
+  const registers = new Map<number, number>();
+  for (const block of blocks) {
+    block.values.forEach((value, i) => registers.set(block.start + i, value));
+  }
+  return registers;
+}
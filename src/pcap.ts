@@ -0,0 +1,573 @@
+/**
+ * Offline analysis of Solarman V5 traffic captured with tcpdump/Wireshark.
+ *
+ * Reads pcap and pcapng files, reassembles the TCP streams carrying V5
+ * frames, splits them into frames with `V5FrameAccumulator`, decodes each
+ * with `V5Frame` and pairs requests with their responses by control code
+ * and sequence number into a timeline.
+ *
+ * Supported link types: Ethernet (with VLAN tags), BSD loopback, raw IP and
+ * Linux cooked captures (SLL and SLL2), carrying IPv4 or IPv6.
+ */
+
+import { readFile } from "node:fs/promises";
+import { V5FrameAccumulator } from "./stream.js";
+import { V5Frame, V5CtrlCode, V5FrameType, V5PayloadLayout } from "./decoder.js";
+
+const PCAP_MAGIC_US = 0xa1b2c3d4;
+const PCAP_MAGIC_NS = 0xa1b23c4d;
+const PCAPNG_SECTION_HEADER = 0x0a0d0d0a;
+const PCAPNG_BYTE_ORDER_MAGIC = 0x1a2b3c4d;
+const PCAPNG_INTERFACE_DESCRIPTION = 0x00000001;
+const PCAPNG_SIMPLE_PACKET = 0x00000003;
+const PCAPNG_ENHANCED_PACKET = 0x00000006;
+
+const LINKTYPE_NULL = 0;
+const LINKTYPE_ETHERNET = 1;
+const LINKTYPE_RAW = 101;
+const LINKTYPE_LINUX_SLL = 113;
+const LINKTYPE_IPV4 = 228;
+const LINKTYPE_IPV6 = 229;
+const LINKTYPE_LINUX_SLL2 = 276;
+
+const ETHERTYPE_IPV4 = 0x0800;
+const ETHERTYPE_IPV6 = 0x86dd;
+const ETHERTYPE_VLAN = [0x8100, 0x88a8];
+const IP_PROTOCOL_TCP = 6;
+
+const TCP_FIN = 0x01;
+const TCP_SYN = 0x02;
+const TCP_RST = 0x04;
+
+/** Out-of-order segments kept per stream before a gap is given up on */
+const MAX_PENDING_SEGMENTS = 64;
+
+export class PcapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PcapError";
+  }
+}
+
+// ---------- Capture file parsing ----------
+
+/** A captured link-layer packet */
+export interface PcapPacket {
+  timestamp: Date;
+  /** LINKTYPE_* value of the interface the packet was captured on */
+  linkType: number;
+  data: Buffer;
+}
+
+/**
+ * Parse a pcap or pcapng file into its packets.
+ *
+ * @throws PcapError if the file is neither pcap nor pcapng, or truncated
+ */
+export function parsePcap(data: Buffer): PcapPacket[] {
+  if (data.length < 4) {
+    throw new PcapError("File is too short to be a pcap or pcapng capture");
+  }
+  const magic = data.readUInt32LE(0);
+  if (magic === PCAPNG_SECTION_HEADER) {
+    return parsePcapng(data);
+  }
+  if ([PCAP_MAGIC_US, PCAP_MAGIC_NS].includes(magic)) {
+    return parseClassicPcap(data, true);
+  }
+  if ([PCAP_MAGIC_US, PCAP_MAGIC_NS].includes(data.readUInt32BE(0))) {
+    return parseClassicPcap(data, false);
+  }
+  throw new PcapError(`Unknown capture file format (magic 0x${magic.toString(16)})`);
+}
+
+function parseClassicPcap(data: Buffer, le: boolean): PcapPacket[] {
+  const u32 = (offset: number) => (le ? data.readUInt32LE(offset) : data.readUInt32BE(offset));
+  if (data.length < 24) {
+    throw new PcapError("pcap global header is truncated");
+  }
+  const nanoseconds = u32(0) === PCAP_MAGIC_NS;
+  const linkType = u32(20) & 0x0fffffff;
+
+  const packets: PcapPacket[] = [];
+  let offset = 24;
+  while (offset + 16 <= data.length) {
+    const seconds = u32(offset);
+    const fraction = u32(offset + 4);
+    const capturedLength = u32(offset + 8);
+    offset += 16;
+    if (offset + capturedLength > data.length) {
+      throw new PcapError(`pcap record at byte ${offset - 16} is truncated`);
+    }
+    const millis = seconds * 1000 + (nanoseconds ? fraction / 1e6 : fraction / 1e3);
+    packets.push({
+      timestamp: new Date(millis),
+      linkType,
+      data: data.subarray(offset, offset + capturedLength),
+    });
+    offset += capturedLength;
+  }
+  return packets;
+}
+
+interface PcapngInterface {
+  linkType: number;
+  /** Timestamp units per second */
+  unitsPerSecond: bigint;
+}
+
+function parsePcapng(data: Buffer): PcapPacket[] {
+  const packets: PcapPacket[] = [];
+  let interfaces: PcapngInterface[] = [];
+  let le = true;
+  let offset = 0;
+
+  while (offset + 12 <= data.length) {
+    if (data.readUInt32LE(offset) === PCAPNG_SECTION_HEADER) {
+      // Each section declares its own byte order and interfaces
+      const byteOrder = data.readUInt32LE(offset + 8);
+      if (byteOrder === PCAPNG_BYTE_ORDER_MAGIC) {
+        le = true;
+      } else if (data.readUInt32BE(offset + 8) === PCAPNG_BYTE_ORDER_MAGIC) {
+        le = false;
+      } else {
+        throw new PcapError(`Invalid pcapng byte-order magic at byte ${offset}`);
+      }
+      interfaces = [];
+    }
+
+    const u32 = (o: number) => (le ? data.readUInt32LE(o) : data.readUInt32BE(o));
+    const u16 = (o: number) => (le ? data.readUInt16LE(o) : data.readUInt16BE(o));
+    const blockType = u32(offset);
+    const blockLength = u32(offset + 4);
+    if (blockLength < 12 || offset + blockLength > data.length) {
+      throw new PcapError(`pcapng block at byte ${offset} is truncated`);
+    }
+    const body = offset + 8;
+    const bodyEnd = offset + blockLength - 4;
+
+    if (blockType === PCAPNG_INTERFACE_DESCRIPTION) {
+      interfaces.push({
+        linkType: u16(body),
+        unitsPerSecond: interfaceResolution(data, body + 8, bodyEnd, u16),
+      });
+    } else if (blockType === PCAPNG_ENHANCED_PACKET) {
+      const iface = interfaces[u32(body)];
+      if (!iface) {
+        throw new PcapError(`pcapng packet at byte ${offset} references an unknown interface`);
+      }
+      const ticks = (BigInt(u32(body + 4)) << 32n) | BigInt(u32(body + 8));
+      const capturedLength = u32(body + 12);
+      packets.push({
+        timestamp: new Date(Number((ticks * 1000n) / iface.unitsPerSecond)),
+        linkType: iface.linkType,
+        data: data.subarray(body + 20, Math.min(body + 20 + capturedLength, bodyEnd)),
+      });
+    } else if (blockType === PCAPNG_SIMPLE_PACKET && interfaces[0]) {
+      // Simple packets carry no timestamp
+      const length = u32(body);
+      packets.push({
+        timestamp: new Date(0),
+        linkType: interfaces[0].linkType,
+        data: data.subarray(body + 4, Math.min(body + 4 + length, bodyEnd)),
+      });
+    }
+
+    offset += blockLength;
+  }
+  return packets;
+}
+
+/** Read the if_tsresol option of an interface description block */
+function interfaceResolution(
+  data: Buffer,
+  offset: number,
+  end: number,
+  u16: (offset: number) => number
+): bigint {
+  while (offset + 4 <= end) {
+    const code = u16(offset);
+    const length = u16(offset + 2);
+    if (code === 0) break;
+    if (code === 9 && length >= 1) {
+      const value = data[offset + 4];
+      const exponent = BigInt(value & 0x7f);
+      return value & 0x80 ? 2n ** exponent : 10n ** exponent;
+    }
+    offset += 4 + Math.ceil(length / 4) * 4;
+  }
+  return 1_000_000n;
+}
+
+// ---------- TCP extraction ----------
+
+interface TcpSegment {
+  timestamp: Date;
+  source: string;
+  destination: string;
+  sourcePort: number;
+  destinationPort: number;
+  seq: number;
+  flags: number;
+  payload: Buffer;
+}
+
+/** Strip the link layer and return the IP packet, or null for other protocols */
+function ipPacket(packet: PcapPacket): Buffer | null {
+  const data = packet.data;
+  switch (packet.linkType) {
+    case LINKTYPE_ETHERNET: {
+      let offset = 12;
+      let etherType = data.length >= 14 ? data.readUInt16BE(offset) : 0;
+      while (ETHERTYPE_VLAN.includes(etherType) && data.length >= offset + 6) {
+        offset += 4;
+        etherType = data.readUInt16BE(offset);
+      }
+      if (etherType !== ETHERTYPE_IPV4 && etherType !== ETHERTYPE_IPV6) return null;
+      return data.subarray(offset + 2);
+    }
+    case LINKTYPE_NULL:
+      return data.subarray(4);
+    case LINKTYPE_RAW:
+    case LINKTYPE_IPV4:
+    case LINKTYPE_IPV6:
+      return data;
+    case LINKTYPE_LINUX_SLL:
+      return data.subarray(16);
+    case LINKTYPE_LINUX_SLL2:
+      return data.subarray(20);
+    default:
+      return null;
+  }
+}
+
+function ipv6Address(data: Buffer): string {
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(data.readUInt16BE(i).toString(16));
+  }
+  return groups.join(":");
+}
+
+function tcpSegment(packet: PcapPacket): TcpSegment | null {
+  const ip = ipPacket(packet);
+  if (!ip || ip.length < 1) return null;
+
+  let source: string;
+  let destination: string;
+  let tcp: Buffer;
+  const version = ip[0] >> 4;
+  if (version === 4 && ip.length >= 20) {
+    const headerLength = (ip[0] & 0x0f) * 4;
+    const fragmentOffset = ip.readUInt16BE(6) & 0x1fff;
+    if (ip[9] !== IP_PROTOCOL_TCP || fragmentOffset !== 0) return null;
+    source = Array.from(ip.subarray(12, 16)).join(".");
+    destination = Array.from(ip.subarray(16, 20)).join(".");
+    // The total length excludes Ethernet padding
+    tcp = ip.subarray(headerLength, Math.min(ip.readUInt16BE(2), ip.length));
+  } else if (version === 6 && ip.length >= 40) {
+    if (ip[6] !== IP_PROTOCOL_TCP) return null;
+    source = ipv6Address(ip.subarray(8, 24));
+    destination = ipv6Address(ip.subarray(24, 40));
+    tcp = ip.subarray(40, Math.min(40 + ip.readUInt16BE(4), ip.length));
+  } else {
+    return null;
+  }
+
+  if (tcp.length < 20) return null;
+  const dataOffset = (tcp[12] >> 4) * 4;
+  return {
+    timestamp: packet.timestamp,
+    source,
+    destination,
+    sourcePort: tcp.readUInt16BE(0),
+    destinationPort: tcp.readUInt16BE(2),
+    seq: tcp.readUInt32BE(4),
+    flags: tcp[13],
+    payload: tcp.subarray(Math.min(dataOffset, tcp.length)),
+  };
+}
+
+// ---------- Stream reassembly ----------
+
+/** One direction of a TCP connection */
+class TcpStream {
+  public readonly accumulator: V5FrameAccumulator;
+  /** Latest segment, for frames completed when a gap is skipped */
+  public last: TcpSegment | null = null;
+  private nextSeq: number | null = null;
+  private readonly pending = new Map<number, Buffer>();
+
+  constructor(onDiscard: (bytes: Buffer) => void) {
+    this.accumulator = new V5FrameAccumulator({ onDiscard });
+  }
+
+  /** Add a segment and return the in-order bytes it makes available */
+  push(segment: TcpSegment): Buffer[] {
+    this.last = segment;
+    if (segment.flags & TCP_SYN) {
+      this.nextSeq = (segment.seq + 1) >>> 0;
+      this.pending.clear();
+      this.accumulator.reset();
+    }
+    if (segment.payload.length === 0) return [];
+    if (this.nextSeq === null) {
+      // Capture started mid-connection
+      this.nextSeq = segment.seq;
+    }
+    this.pending.set(segment.seq, segment.payload);
+    if (this.pending.size > MAX_PENDING_SEGMENTS) {
+      this.skipGap();
+    }
+    return this.drain();
+  }
+
+  /** Give up on missing data and continue with the earliest pending segment */
+  skipGap(): Buffer[] {
+    let earliest: number | null = null;
+    for (const seq of this.pending.keys()) {
+      if (earliest === null || seqDelta(seq, earliest) < 0) earliest = seq;
+    }
+    if (earliest === null) return [];
+    this.nextSeq = earliest;
+    this.accumulator.reset();
+    return this.drain();
+  }
+
+  private drain(): Buffer[] {
+    const chunks: Buffer[] = [];
+    let progress = true;
+    while (progress) {
+      progress = false;
+      for (const [seq, payload] of this.pending) {
+        const delta = seqDelta(seq, this.nextSeq!);
+        if (delta > 0) continue;
+        this.pending.delete(seq);
+        // Retransmitted bytes were delivered already
+        if (-delta < payload.length) {
+          chunks.push(payload.subarray(-delta));
+          this.nextSeq = (seq + payload.length) >>> 0;
+        }
+        progress = true;
+      }
+    }
+    return chunks;
+  }
+
+  get hasPending(): boolean {
+    return this.pending.size > 0;
+  }
+}
+
+/** Signed distance between two 32-bit sequence numbers */
+function seqDelta(a: number, b: number): number {
+  return (a - b) | 0;
+}
+
+// ---------- Analysis ----------
+
+export interface PcapAnalysisOptions {
+  /**
+   * TCP ports carrying V5 traffic. Default: [8899]. Streams on other ports
+   * (e.g. Server B) are included when their first byte is a V5 start byte
+   */
+  ports?: number[];
+}
+
+/** A V5 frame in the capture */
+export interface TimelineEntry {
+  /** Position in `PcapAnalysis.entries` */
+  index: number;
+  /** Capture time of the packet that completed the frame */
+  timestamp: Date;
+  /** Sender as "address:port" */
+  source: string;
+  /** Receiver as "address:port" */
+  destination: string;
+  frame: Buffer;
+  decoded: V5Frame;
+  /** Index of the matching request or response, or null if unpaired */
+  pair: number | null;
+  /** Milliseconds between request and response, on paired responses */
+  latency: number | null;
+}
+
+export interface PcapAnalysis {
+  /** Every V5 frame, in capture order */
+  entries: TimelineEntry[];
+  /** TCP connections that carried V5 frames, as "client <-> server" */
+  connections: string[];
+  /** Bytes in V5 streams that were not part of a valid frame */
+  discardedBytes: number;
+}
+
+/**
+ * Extract and pair the V5 frames of a pcap or pcapng capture.
+ *
+ * Responses are paired with the latest unanswered request of the same
+ * connection whose control code is 0x30 higher and whose sequence number
+ * matches (logger responses echo it, server time responses increment it).
+ */
+export function analyzePcap(data: Buffer, options: PcapAnalysisOptions = {}): PcapAnalysis {
+  const ports = new Set(options.ports ?? [8899]);
+  const streams = new Map<string, TcpStream | null>();
+  const connections = new Set<string>();
+  const pendingRequests = new Map<string, TimelineEntry[]>();
+  const entries: TimelineEntry[] = [];
+  let discardedBytes = 0;
+
+  const addFrame = (segment: TcpSegment, frame: Buffer) => {
+    const source = `${segment.source}:${segment.sourcePort}`;
+    const destination = `${segment.destination}:${segment.destinationPort}`;
+    const connection = [source, destination].sort().join(" <-> ");
+    connections.add(connection);
+
+    const entry: TimelineEntry = {
+      index: entries.length,
+      timestamp: segment.timestamp,
+      source,
+      destination,
+      frame,
+      decoded: new V5Frame(frame.toString("hex")),
+      pair: null,
+      latency: null,
+    };
+    entries.push(entry);
+
+    const pending = pendingRequests.get(connection) ?? [];
+    pendingRequests.set(connection, pending);
+    if (frame[4] >= 0x40) {
+      pending.push(entry);
+      return;
+    }
+    for (let i = pending.length - 1; i >= 0; i--) {
+      const request = pending[i].frame;
+      if (
+        pending[i].source === destination &&
+        request[4] === frame[4] + 0x30 &&
+        (request[5] === frame[5] || ((request[5] + 1) & 0xff) === frame[5])
+      ) {
+        const [match] = pending.splice(i, 1);
+        match.pair = entry.index;
+        entry.pair = match.index;
+        entry.latency = entry.timestamp.getTime() - match.timestamp.getTime();
+        return;
+      }
+    }
+  };
+
+  const packets = parsePcap(data);
+  const deliver = (stream: TcpStream, segment: TcpSegment, chunks: Buffer[]) => {
+    for (const chunk of chunks) {
+      for (const frame of stream.accumulator.push(chunk)) {
+        addFrame(segment, frame);
+      }
+    }
+  };
+  // Deliver data after gaps that were never filled
+  const flush = (stream: TcpStream) => {
+    while (stream.hasPending) {
+      deliver(stream, stream.last!, stream.skipGap());
+    }
+  };
+
+  for (const packet of packets) {
+    const segment = tcpSegment(packet);
+    if (!segment) continue;
+
+    const key =
+      `${segment.source}:${segment.sourcePort}>` +
+      `${segment.destination}:${segment.destinationPort}`;
+    let stream = streams.get(key);
+    if (stream === undefined) {
+      const onV5Port = ports.has(segment.sourcePort) || ports.has(segment.destinationPort);
+      if (!onV5Port && segment.payload.length === 0) continue;
+      if (!onV5Port && segment.payload[0] !== 0xa5) {
+        // Remember the decision so the rest of the stream is skipped too
+        streams.set(key, null);
+        continue;
+      }
+      stream = new TcpStream((bytes) => (discardedBytes += bytes.length));
+      streams.set(key, stream);
+    }
+    if (stream === null) continue;
+
+    deliver(stream, segment, stream.push(segment));
+    if (segment.flags & (TCP_FIN | TCP_RST)) {
+      flush(stream);
+      streams.delete(key);
+    }
+  }
+
+  for (const stream of streams.values()) {
+    if (stream) flush(stream);
+  }
+
+  return { entries, connections: [...connections], discardedBytes };
+}
+
+/** Read and analyse a pcap or pcapng file */
+export async function analyzePcapFile(
+  path: string,
+  options: PcapAnalysisOptions = {}
+): Promise<PcapAnalysis> {
+  return analyzePcap(await readFile(path), options);
+}
+
+// ---------- Formatting ----------
+
+/** One-line summary of the payload of a frame */
+function describePayload(frame: V5Frame): string {
+  const rtu = frame.rtu;
+  if (
+    frame.payloadLayout === V5PayloadLayout.Modbus &&
+    frame.frameType !== V5FrameType.KeepAlive &&
+    rtu.length >= 2
+  ) {
+    if (frame.controlCode === V5CtrlCode.V5Request && rtu.length >= 6) {
+      const address = rtu.readUInt16BE(2).toString(16).padStart(4, "0");
+      return `slave ${rtu[0]} FC ${rtu[1]} addr 0x${address} qty ${rtu.readUInt16BE(4)}`;
+    }
+    return `slave ${rtu[0]} FC ${rtu[1]} ${rtu.subarray(2).toString("hex")}`;
+  }
+  if (frame.payloadLayout === V5PayloadLayout.Data) {
+    const blocks = frame.dataFrame?.blocks ?? [];
+    return `${blocks.length} register block(s)`;
+  }
+  if (frame.payloadLayout === V5PayloadLayout.TimeResponse) {
+    return frame.timeResponse?.timestamp.toISOString() ?? "";
+  }
+  return "";
+}
+
+/** Render an analysis as a human-readable timeline, one frame per line */
+export function formatTimeline(analysis: PcapAnalysis): string {
+  const lines: string[] = [];
+  for (const entry of analysis.entries) {
+    const { decoded } = entry;
+    const seq = decoded.sequenceNumbers[0].toString(16).padStart(2, "0");
+    let pairing = "";
+    if (entry.latency !== null) {
+      pairing = ` (reply to #${entry.pair}, ${entry.latency} ms)`;
+    } else if (entry.frame[4] >= 0x40 && entry.pair === null) {
+      pairing = " (no response)";
+    }
+    let description = "";
+    try {
+      description = describePayload(decoded);
+    } catch {
+      // Malformed payloads are still listed by control code
+    }
+    lines.push(
+      `#${entry.index} ${entry.timestamp.toISOString()} ${entry.source} -> ${entry.destination} ` +
+        `${decoded.controlCodeName} seq=0x${seq}` +
+        (description ? ` ${description}` : "") +
+        pairing
+    );
+  }
+  lines.push(
+    `${analysis.entries.length} frame(s) in ${analysis.connections.length} connection(s), ` +
+      `${analysis.discardedBytes} byte(s) discarded`
+  );
+  return lines.join("\n");
+}
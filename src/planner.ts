@@ -0,0 +1,97 @@
+/**
+ * Read planner.
+ *
+ * Turns a set of wanted register addresses into the smallest list of read
+ * requests a device will accept: adjacent registers are coalesced into
+ * contiguous blocks, short gaps are bridged by reading a few unwanted
+ * registers, blocks are split at the device's maximum quantity per request,
+ * and known holes (ranges that return IllegalDataAddress) are never read.
+ */
+
+// ---------- Types ----------
+
+/** Inclusive range of register addresses */
+export interface RegisterRange {
+  start: number;
+  end: number;
+}
+
+export interface ReadPlanOptions {
+  /** Largest number of registers per request. Default: 125 (Modbus limit) */
+  maxQuantity?: number;
+  /**
+   * Largest run of unwanted registers that is read to avoid an extra
+   * request. Default: 0 (only adjacent registers are merged)
+   */
+  maxGap?: number;
+  /** Address ranges that must never be read */
+  holes?: RegisterRange[];
+}
+
+/** A single read request in a plan */
+export interface PlannedRead {
+  start: number;
+  quantity: number;
+}
+
+// ---------- Planner ----------
+
+/** Check whether any register in [start, end] lies in a hole */
+function overlapsHole(
+  start: number,
+  end: number,
+  holes: RegisterRange[]
+): boolean {
+  return holes.some((hole) => start <= hole.end && end >= hole.start);
+}
+
+/**
+ * Plan the reads needed to fetch a set of registers.
+ *
+ * Wanted registers that lie inside a hole are left out of the plan.
+ *
+ * @param addresses  Register addresses to read (any order, duplicates allowed)
+ * @param options    Device limits
+ * @returns Read requests in ascending address order
+ */
+export function planReads(
+  addresses: Iterable<number>,
+  options: ReadPlanOptions = {}
+): PlannedRead[] {
+  const maxQuantity = options.maxQuantity ?? 125;
+  const maxGap = options.maxGap ?? 0;
+  const holes = options.holes ?? [];
+
+  if (!Number.isInteger(maxQuantity) || maxQuantity < 1) {
+    throw new Error(`Invalid maxQuantity: ${maxQuantity}`);
+  }
+  if (!Number.isInteger(maxGap) || maxGap < 0) {
+    throw new Error(`Invalid maxGap: ${maxGap}`);
+  }
+
+  const wanted = [...new Set(addresses)]
+    .filter((addr) => !overlapsHole(addr, addr, holes))
+    .sort((a, b) => a - b);
+
+  const plan: PlannedRead[] = [];
+  let current: PlannedRead | null = null;
+
+  for (const addr of wanted) {
+    if (current) {
+      const end = current.start + current.quantity - 1;
+      const gap = addr - end - 1;
+      if (
+        gap <= maxGap &&
+        addr - current.start + 1 <= maxQuantity &&
+        (gap === 0 || !overlapsHole(end + 1, addr - 1, holes))
+      ) {
+        current.quantity = addr - current.start + 1;
+        continue;
+      }
+    }
+    current = { start: addr, quantity: 1 };
+    plan.push(current);
+  }
+
+  return plan;
+}
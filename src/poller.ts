@@ -0,0 +1,288 @@
+/**
+ * Poller – periodic register polling on top of SolarmanV5.
+ *
+ * Polls groups of registers, each at its own interval, and emits a `sample`
+ * event for every successful read and a `change` event when values differ
+ * from the previous sample. Failed polls are retried with exponential
+ * backoff. Groups share the client's request queue, so their reads never
+ * interleave on the wire.
+ */
+
+import { EventEmitter } from "node:events";
+import {
+  NoSocketAvailableError,
+  nullLogger,
+  createConsoleLogger,
+} from "./solarmanv5.js";
+import type { SolarmanV5, Logger, RequestOptions } from "./solarmanv5.js";
+import type {
+  RegisterMap,
+  RegisterMapResult,
+  RegisterTable,
+} from "./registermap.js";
+import type { ReadPlanOptions } from "./planner.js";
+
+// ---------- Options ----------
+
+export interface PollGroup {
+  /** Group name, reported in events */
+  name: string;
+  /** Poll interval in milliseconds */
+  interval: number;
+  /** Register map to read. Samples then carry the decoded values */
+  map?: RegisterMap;
+  /** Registers to read when no map is given */
+  addresses?: number[];
+  /** Read planning and register table for `addresses`. Default table: "holding" */
+  plan?: ReadPlanOptions & { table?: RegisterTable };
+}
+
+export interface PollerOptions {
+  /** Multiplier applied to the interval after each consecutive failure. Default: 2 */
+  backoffFactor?: number;
+  /** Longest delay between retries in milliseconds. Default: 300000 */
+  maxBackoff?: number;
+  /** Options passed to every read (timeout, cancellation) */
+  request?: RequestOptions;
+  /** Enable verbose/debug logging. Default: false */
+  verbose?: boolean;
+  /** Custom logger instance */
+  logger?: Logger;
+}
+
+/** The parts of a SolarmanV5 client that the poller uses */
+export type PollerClient = Pick<
+  SolarmanV5,
+  "autoReconnect" | "isConnected" | "reconnect" | "readRegisters" | "readMap"
+>;
+
+// ---------- Events ----------
+
+export interface PollSample {
+  /** Group name */
+  group: string;
+  /** Time the read completed */
+  timestamp: Date;
+  /** Raw register values keyed by address */
+  registers: Map<number, number>;
+  /** Decoded values, if the group has a register map */
+  values?: RegisterMapResult;
+}
+
+export interface PollChange {
+  /** Field name, or register address as "0x0100" when the group has no map */
+  key: string;
+  previous: number | string;
+  current: number | string;
+}
+
+export interface PollChangeEvent {
+  group: string;
+  timestamp: Date;
+  changes: PollChange[];
+}
+
+export interface PollerEvents {
+  sample: [sample: PollSample];
+  change: [event: PollChangeEvent];
+  error: [err: Error, group: string];
+}
+
+interface GroupState {
+  group: PollGroup;
+  timer: NodeJS.Timeout | null;
+  failures: number;
+  last: Map<string, number | string> | null;
+}
+
+// ---------- Main class ----------
+
+export class Poller extends EventEmitter<PollerEvents> {
+  public readonly client: PollerClient;
+  public readonly backoffFactor: number;
+  public readonly maxBackoff: number;
+
+  private log: Logger;
+  private readonly requestOptions?: RequestOptions;
+  private readonly groups = new Map<string, GroupState>();
+  private running = false;
+
+  constructor(client: PollerClient, groups: PollGroup[], options: PollerOptions = {}) {
+    super();
+
+    this.client = client;
+    this.backoffFactor = options.backoffFactor ?? 2;
+    this.maxBackoff = options.maxBackoff ?? 300000;
+    this.requestOptions = options.request;
+
+    for (const group of groups) {
+      if (this.groups.has(group.name)) {
+        throw new Error(`Duplicate poll group: ${group.name}`);
+      }
+      if (!(group.interval > 0)) {
+        throw new Error(`Invalid interval for poll group ${group.name}: ${group.interval}`);
+      }
+      if (!group.map && !group.addresses) {
+        throw new Error(`Poll group ${group.name} needs a map or addresses`);
+      }
+      this.groups.set(group.name, { group, timer: null, failures: 0, last: null });
+    }
+
+    if (options.logger) {
+      this.log = options.logger;
+    } else if (options.verbose) {
+      this.log = createConsoleLogger();
+    } else {
+      this.log = nullLogger;
+    }
+  }
+
+  /** Whether the poller has been started */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /** Start polling every group immediately, then at its interval */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    for (const state of this.groups.values()) {
+      this.schedule(state, 0);
+    }
+  }
+
+  /** Stop polling. Reads already in flight complete but emit nothing */
+  stop(): void {
+    this.running = false;
+    for (const state of this.groups.values()) {
+      if (state.timer) clearTimeout(state.timer);
+      state.timer = null;
+    }
+  }
+
+  /**
+   * Poll a group once, outside the schedule. Emits the same events as a
+   * scheduled poll.
+   */
+  async poll(name: string): Promise<PollSample> {
+    const state = this.groups.get(name);
+    if (!state) {
+      throw new Error(`Unknown poll group: ${name}`);
+    }
+    const sample = await this.read(state.group);
+    this.handleSample(state, sample);
+    return sample;
+  }
+
+  // ---------- Scheduling ----------
+
+  private schedule(state: GroupState, delay: number): void {
+    if (!this.running) return;
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      void this.run(state);
+    }, delay);
+  }
+
+  private async run(state: GroupState): Promise<void> {
+    const { group } = state;
+    let sample: PollSample;
+    try {
+      sample = await this.read(group);
+    } catch (err) {
+      if (!this.running) return;
+      state.failures++;
+      const delay = Math.min(
+        group.interval * Math.pow(this.backoffFactor, state.failures),
+        this.maxBackoff
+      );
+      this.log.debug(
+        `[${group.name}] Poll failed (${state.failures}x), retrying in ${delay}ms: ${(err as Error).message}`
+      );
+      this.recoverConnection(err as Error);
+      this.schedule(state, delay);
+      if (this.listenerCount("error") > 0) {
+        this.emit("error", err as Error, group.name);
+      }
+      return;
+    }
+
+    if (!this.running) return;
+    state.failures = 0;
+    this.schedule(state, group.interval);
+    try {
+      this.handleSample(state, sample);
+    } catch (err) {
+      // A throwing listener is not a failed poll: no backoff, no reconnect
+      this.log.error(`[${group.name}] Sample listener failed: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Kick off a reconnect when the connection is gone. The client reconnects
+   * by itself when a socket closes, but not after a failed reconnect
+   * attempt, so the poller keeps trying on its behalf.
+   */
+  private recoverConnection(err: Error): void {
+    if (
+      err instanceof NoSocketAvailableError &&
+      this.client.autoReconnect &&
+      !this.client.isConnected
+    ) {
+      this.client.reconnect().catch((reconnectErr) => {
+        this.log.debug(`Reconnect failed: ${(reconnectErr as Error).message}`);
+      });
+    }
+  }
+
+  // ---------- Reading ----------
+
+  private async read(group: PollGroup): Promise<PollSample> {
+    if (group.map) {
+      const values = await this.client.readMap(group.map, this.requestOptions);
+      const registers = new Map<number, number>();
+      for (const field of group.map.fields) {
+        values[field.name]?.raw.forEach((value, i) =>
+          registers.set(field.address + i, value)
+        );
+      }
+      return { group: group.name, timestamp: new Date(), registers, values };
+    }
+
+    const registers = await this.client.readRegisters(
+      group.addresses ?? [],
+      group.plan,
+      this.requestOptions
+    );
+    return { group: group.name, timestamp: new Date(), registers };
+  }
+
+  private handleSample(state: GroupState, sample: PollSample): void {
+    const current = new Map<string, number | string>();
+    if (sample.values) {
+      for (const [name, field] of Object.entries(sample.values)) {
+        current.set(name, field.value);
+      }
+    } else {
+      for (const [address, value] of sample.registers) {
+        current.set(`0x${address.toString(16).padStart(4, "0")}`, value);
+      }
+    }
+
+    const previous = state.last;
+    state.last = current;
+    this.emit("sample", sample);
+
+    if (!previous) return;
+    const changes: PollChange[] = [];
+    for (const [key, value] of current) {
+      const prev = previous.get(key);
+      if (prev !== undefined && prev !== value) {
+        changes.push({ key, previous: prev, current: value });
+      }
+    }
+    if (changes.length > 0) {
+      this.emit("change", { group: sample.group, timestamp: sample.timestamp, changes });
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Built-in register maps for known inverters.
+ *
+ * Each profile is a plain `RegisterMap`, so it can be read with
+ * `SolarmanV5.readMap()`, used to decode pushed DATA frames with
+ * `decodeRegisterMap()`, or copied and extended.
+ */
+
+import type { RegisterMap } from "./registermap.js";
+
+/**
+ * SRNE hybrid inverters, sold as the SunGoldPower SPH10048P 10KW 48V split
+ * phase inverter (see InverterFindings.md).
+ *
+ * - 0x0100-0x0109 is the classic SRNE controller block. 0x010A-0x0114
+ *   returns IllegalDataAddress.
+ * - 0x0200-0x023B holds the hybrid inverter data. The per-channel PV
+ *   registers (0x0200-0x020B, and 0x0107-0x0109 in the controller block)
+ *   are always zero on this model; only totals are reported.
+ * - Reads of more than ~16 registers fail with exception code 10.
+ */
+export const SRNE_SPH10048P: RegisterMap = {
+  name: "SRNE SPH10048P",
+  description:
+    "SunGoldPower SPH10048P 10KW 48V split phase hybrid inverter (SRNE)",
+  maxRegistersPerRequest: 16,
+  maxGap: 8,
+  holes: [{ start: 0x010a, end: 0x0114 }],
+  fields: [
+    // ---------- Controller block (0x0100-0x0109) ----------
+    {
+      name: "batterySoc",
+      address: 0x0100,
+      bitmask: 0x00ff,
+      unit: "%",
+      description: "Battery state of charge (low byte)",
+    },
+    { name: "batteryVoltage", address: 0x0101, scale: 0.1, unit: "V" },
+    { name: "chargingCurrent", address: 0x0102, scale: 0.01, unit: "A" },
+    {
+      name: "controllerTemperature",
+      address: 0x0103,
+      bitmask: 0xff00,
+      bitshift: 8,
+      unit: "°C",
+      description: "Controller temperature (high byte)",
+    },
+    {
+      name: "batteryTemperature",
+      address: 0x0103,
+      bitmask: 0x00ff,
+      unit: "°C",
+      description: "Battery temperature (low byte)",
+    },
+    { name: "loadDcVoltage", address: 0x0104, scale: 0.1, unit: "V" },
+    { name: "loadDcCurrent", address: 0x0105, scale: 0.01, unit: "A" },
+    { name: "loadDcPower", address: 0x0106, unit: "W" },
+    {
+      name: "pvVoltage",
+      address: 0x0107,
+      scale: 0.1,
+      unit: "V",
+      description: "Always zero on this model",
+    },
+    {
+      name: "pvCurrent",
+      address: 0x0108,
+      scale: 0.01,
+      unit: "A",
+      description: "Always zero on this model",
+    },
+    {
+      name: "pvPower",
+      address: 0x0109,
+      unit: "W",
+      description: "Always zero on this model",
+    },
+
+    // ---------- Inverter status (0x0212-0x0215) ----------
+    {
+      name: "pvCumulativeGeneration",
+      address: 0x0212,
+      scale: 0.1,
+      unit: "kWh",
+    },
+    { name: "pvDailyGeneration", address: 0x0213, scale: 0.1, unit: "kWh" },
+    { name: "acOutputFrequencyR", address: 0x0215, scale: 0.01, unit: "Hz" },
+
+    // ---------- AC output (0x0216-0x021C) ----------
+    { name: "acVoltageR", address: 0x0216, scale: 0.1, unit: "V" },
+    { name: "acCurrentR", address: 0x0217, scale: 0.1, unit: "A" },
+    { name: "acOutputFrequencyS", address: 0x0218, scale: 0.01, unit: "Hz" },
+    { name: "acCurrentS", address: 0x0219, scale: 0.1, unit: "A" },
+    { name: "mainsVoltageL1", address: 0x021b, scale: 0.1, unit: "V" },
+    { name: "mainsVoltageL2", address: 0x021c, scale: 0.1, unit: "V" },
+
+    // ---------- Load & power (0x0220-0x0222) ----------
+    { name: "loadPowerL1", address: 0x0220, unit: "W" },
+    { name: "loadPowerL2", address: 0x0221, unit: "W" },
+    { name: "totalConsumptionPower", address: 0x0222, unit: "W" },
+
+    // ---------- Bus & grid (0x0228-0x0234) ----------
+    { name: "busVoltagePositive", address: 0x0228, scale: 0.1, unit: "V" },
+    { name: "busVoltageNegative", address: 0x0229, scale: 0.1, unit: "V" },
+    { name: "mainsVoltage1", address: 0x022a, scale: 0.1, unit: "V" },
+    { name: "mainsVoltage2", address: 0x022c, scale: 0.1, unit: "V" },
+    { name: "temperature1", address: 0x0232, scale: 0.1, unit: "°F" },
+    { name: "temperature2", address: 0x0234, scale: 0.1, unit: "°F" },
+  ],
+};
+
+/** Built-in profiles, keyed by profile name */
+export const PROFILES: Record<string, RegisterMap> = {
+  "srne-sph10048p": SRNE_SPH10048P,
+};
@@ -0,0 +1,400 @@
+/**
+ * Declarative register maps.
+ *
+ * A register map names the registers of a device and describes how to turn
+ * their raw values into meaningful readings: address, register count, data
+ * type, scale, unit, signedness, bitmask/bitshift and enum labels. Maps can
+ * be written as TypeScript objects or loaded from JSON/YAML files, and are
+ * read in one call with `SolarmanV5.readMap()`.
+ */
+
+import { readFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import { planReads } from "./planner.js";
+import type { RegisterRange } from "./planner.js";
+import type { FormatOptions } from "./solarmanv5.js";
+
+// ---------- Types ----------
+
+export type RegisterDataType = "uint16" | "int16" | "uint32" | "int32" | "string";
+
+export type RegisterTable = "holding" | "input";
+
+export interface RegisterField extends FormatOptions {
+  /** Field name, used as the key in decoded results */
+  name: string;
+  /** Address of the first register */
+  address: number;
+  /** Number of registers. Default: 1 for 16-bit types, 2 for 32-bit types */
+  count?: number;
+  /** Data type. Default: "uint16" */
+  type?: RegisterDataType;
+  /** Register table to read from. Default: "holding" */
+  table?: RegisterTable;
+  /** Unit of the scaled value (e.g. "V", "W", "%") */
+  unit?: string;
+  /** Labels for enumerated values */
+  enum?: Record<number, string>;
+  /** Free-form description */
+  description?: string;
+}
+
+export interface RegisterMap {
+  /** Map name (e.g. device model) */
+  name?: string;
+  /** Free-form description */
+  description?: string;
+  /** Largest number of registers the device returns per request */
+  maxRegistersPerRequest?: number;
+  /** Largest run of unused registers read to save a request. Default: 0 */
+  maxGap?: number;
+  /** Address ranges the device rejects, which are never read */
+  holes?: RegisterRange[];
+  /** Fields in the map */
+  fields: RegisterField[];
+}
+
+export interface RegisterFieldValue {
+  /** Decoded value: scaled number, or text for string fields */
+  value: number | string;
+  /** Enum label of the value, if the field defines one */
+  label?: string;
+  /** Unit of the value */
+  unit?: string;
+  /** Raw register values */
+  raw: number[];
+}
+
+/** Decoded register map, keyed by field name */
+export type RegisterMapResult = Record<string, RegisterFieldValue>;
+
+// ---------- Errors ----------
+
+export class RegisterMapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RegisterMapError";
+  }
+}
+
+// ---------- Value formatting ----------
+
+/**
+ * Calculate 2s complement. Uses arithmetic rather than bit operators so
+ * widths of 32 bits and more work too.
+ */
+export function twosComplement(val: number, numBits: number): number {
+  const range = Math.pow(2, numBits);
+  if (val < 0) {
+    val = range + val;
+  } else if (val >= range / 2) {
+    val = val - range;
+  }
+  return val;
+}
+
+/** Format a list of modbus register values as a single value */
+export function formatRegisters(
+  modbusValues: number[],
+  options: FormatOptions = {}
+): number {
+  const { scale = 1, signed = false, bitmask, bitshift } = options;
+
+  let response = 0;
+  const numRegisters = modbusValues.length;
+
+  for (let i = 0; i < numRegisters; i++) {
+    const j = numRegisters - 1 - i;
+    response += modbusValues[i] * Math.pow(2, j * 16);
+  }
+
+  if (signed) {
+    response = twosComplement(response, numRegisters * 16);
+  }
+  if (scale !== 1) {
+    response *= scale;
+  }
+  if (bitmask !== undefined) {
+    response &= bitmask;
+  }
+  if (bitshift !== undefined) {
+    response >>= bitshift;
+  }
+
+  return response;
+}
+
+// ---------- Field helpers ----------
+
+/** Number of registers occupied by a field */
+export function fieldCount(field: RegisterField): number {
+  if (field.count !== undefined) return field.count;
+  return field.type === "uint32" || field.type === "int32" ? 2 : 1;
+}
+
+/** Register table of a field */
+export function fieldTable(field: RegisterField): RegisterTable {
+  return field.table ?? "holding";
+}
+
+/** A contiguous range of registers to read for a register map */
+export interface RegisterMapBlock {
+  table: RegisterTable;
+  start: number;
+  count: number;
+}
+
+/**
+ * Plan the reads for a register map, per table, with the read planner:
+ * adjacent fields are coalesced, gaps up to `map.maxGap` are bridged,
+ * ranges are split at `map.maxRegistersPerRequest` and `map.holes` are
+ * never read.
+ */
+export function registerMapBlocks(map: RegisterMap): RegisterMapBlock[] {
+  const addresses: Record<RegisterTable, number[]> = { holding: [], input: [] };
+  for (const field of map.fields) {
+    for (let i = 0; i < fieldCount(field); i++) {
+      addresses[fieldTable(field)].push(field.address + i);
+    }
+  }
+
+  const blocks: RegisterMapBlock[] = [];
+  for (const table of ["holding", "input"] as const) {
+    const plan = planReads(addresses[table], {
+      maxQuantity: map.maxRegistersPerRequest,
+      maxGap: map.maxGap,
+      holes: map.holes,
+    });
+    for (const read of plan) {
+      blocks.push({ table, start: read.start, count: read.quantity });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Decode the raw registers of a single field.
+ *
+ * Bitmask and bitshift are applied before scaling, so a scaled value can be
+ * packed into part of a register (e.g. a temperature in the high byte).
+ * Enum labels are looked up by the register code, before scaling.
+ */
+export function decodeField(
+  field: RegisterField,
+  raw: number[]
+): RegisterFieldValue {
+  if (field.type === "string") {
+    const bytes = Buffer.alloc(raw.length * 2);
+    raw.forEach((v, i) => bytes.writeUInt16BE(v, i * 2));
+    const value = bytes.toString("latin1").replace(/\0+$/, "").trim();
+    return { value, unit: field.unit, raw };
+  }
+
+  const signed =
+    field.signed ?? (field.type === "int16" || field.type === "int32");
+  const unscaled = formatRegisters(raw, {
+    signed,
+    bitmask: field.bitmask,
+    bitshift: field.bitshift,
+  });
+  const value = unscaled * (field.scale ?? 1);
+
+  const result: RegisterFieldValue = { value, unit: field.unit, raw };
+  const label = field.enum?.[unscaled];
+  if (label !== undefined) {
+    result.label = label;
+  }
+  return result;
+}
+
+/**
+ * Decode a register map from already-read register values.
+ *
+ * Fields whose registers are not all present are left out of the result.
+ * This also works with the register blocks of logger DATA frames (see
+ * `registerBlocksToMap()`).
+ *
+ * @param map        Register map
+ * @param registers  Register values keyed by address, per table. A single
+ *                   Map is used for every table.
+ */
+export function decodeRegisterMap(
+  map: RegisterMap,
+  registers:
+    | Map<number, number>
+    | Partial<Record<RegisterTable, Map<number, number>>>
+): RegisterMapResult {
+  const result: RegisterMapResult = {};
+  for (const field of map.fields) {
+    const table =
+      registers instanceof Map ? registers : registers[fieldTable(field)];
+    if (!table) continue;
+
+    const raw: number[] = [];
+    for (let i = 0; i < fieldCount(field); i++) {
+      const value = table.get(field.address + i);
+      if (value === undefined) break;
+      raw.push(value);
+    }
+    if (raw.length === fieldCount(field)) {
+      result[field.name] = decodeField(field, raw);
+    }
+  }
+  return result;
+}
+
+// ---------- Validation & loading ----------
+
+const DATA_TYPES = new Set<string>(["uint16", "int16", "uint32", "int32", "string"]);
+const TABLES = new Set<string>(["holding", "input"]);
+
+/** Parse a number given as a JSON/YAML number or a decimal/0x hex string */
+function parseNumber(value: unknown, what: string): number {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const trimmed = value.trim();
+    const n = /^-?0x/i.test(trimmed) ? parseInt(trimmed, 16) : Number(trimmed);
+    if (Number.isFinite(n)) return n;
+  }
+  throw new RegisterMapError(`Invalid ${what}: ${JSON.stringify(value)}`);
+}
+
+function parseOptionalNumber(value: unknown, what: string): number | undefined {
+  return value === undefined || value === null ? undefined : parseNumber(value, what);
+}
+
+function parseField(raw: unknown, index: number): RegisterField {
+  if (typeof raw !== "object" || raw === null) {
+    throw new RegisterMapError(`Field ${index} is not an object`);
+  }
+  const f = raw as Record<string, unknown>;
+  if (typeof f.name !== "string" || f.name === "") {
+    throw new RegisterMapError(`Field ${index} has no name`);
+  }
+  const name = f.name;
+
+  const field: RegisterField = {
+    name,
+    address: parseNumber(f.address, `address of field "${name}"`),
+  };
+
+  if (f.type !== undefined) {
+    if (typeof f.type !== "string" || !DATA_TYPES.has(f.type)) {
+      throw new RegisterMapError(`Invalid type of field "${name}": ${String(f.type)}`);
+    }
+    field.type = f.type as RegisterDataType;
+  }
+  if (f.table !== undefined) {
+    if (typeof f.table !== "string" || !TABLES.has(f.table)) {
+      throw new RegisterMapError(`Invalid table of field "${name}": ${String(f.table)}`);
+    }
+    field.table = f.table as RegisterTable;
+  }
+
+  field.count = parseOptionalNumber(f.count, `count of field "${name}"`);
+  field.scale = parseOptionalNumber(f.scale, `scale of field "${name}"`);
+  field.bitmask = parseOptionalNumber(f.bitmask, `bitmask of field "${name}"`);
+  field.bitshift = parseOptionalNumber(f.bitshift, `bitshift of field "${name}"`);
+  if (f.signed !== undefined) {
+    if (typeof f.signed !== "boolean") {
+      throw new RegisterMapError(`Invalid signed of field "${name}": ${JSON.stringify(f.signed)}`);
+    }
+    field.signed = f.signed;
+  }
+  if (typeof f.unit === "string") field.unit = f.unit;
+  if (typeof f.description === "string") field.description = f.description;
+
+  if (field.type === "string" && field.count === undefined) {
+    throw new RegisterMapError(`String field "${name}" needs a count`);
+  }
+  if (fieldCount(field) < 1) {
+    throw new RegisterMapError(`Invalid count of field "${name}": ${field.count}`);
+  }
+
+  if (f.enum !== undefined) {
+    if (typeof f.enum !== "object" || f.enum === null) {
+      throw new RegisterMapError(`Invalid enum of field "${name}"`);
+    }
+    field.enum = {};
+    for (const [key, label] of Object.entries(f.enum)) {
+      field.enum[parseNumber(key, `enum key of field "${name}"`)] = String(label);
+    }
+  }
+
+  // Drop options that were not given, so they don't show up as undefined
+  for (const key of Object.keys(field) as (keyof RegisterField)[]) {
+    if (field[key] === undefined) delete field[key];
+  }
+  return field;
+}
+
+/**
+ * Validate a plain object (e.g. parsed from JSON or YAML) as a register map.
+ * Numbers may be given as decimal or `0x` hex strings.
+ */
+export function parseRegisterMap(raw: unknown): RegisterMap {
+  if (typeof raw !== "object" || raw === null) {
+    throw new RegisterMapError("Register map is not an object");
+  }
+  const m = raw as Record<string, unknown>;
+  if (!Array.isArray(m.fields)) {
+    throw new RegisterMapError("Register map has no fields array");
+  }
+
+  const fields = m.fields.map((f, i) => parseField(f, i));
+  const names = new Set<string>();
+  for (const field of fields) {
+    if (names.has(field.name)) {
+      throw new RegisterMapError(`Duplicate field name: ${field.name}`);
+    }
+    names.add(field.name);
+  }
+
+  const map: RegisterMap = { fields };
+  if (typeof m.name === "string") map.name = m.name;
+  if (typeof m.description === "string") map.description = m.description;
+  if (m.maxRegistersPerRequest !== undefined) {
+    const max = parseNumber(m.maxRegistersPerRequest, "maxRegistersPerRequest");
+    if (max < 1) {
+      throw new RegisterMapError(`Invalid maxRegistersPerRequest: ${max}`);
+    }
+    map.maxRegistersPerRequest = max;
+  }
+  if (m.maxGap !== undefined) {
+    const gap = parseNumber(m.maxGap, "maxGap");
+    if (gap < 0) {
+      throw new RegisterMapError(`Invalid maxGap: ${gap}`);
+    }
+    map.maxGap = gap;
+  }
+  if (m.holes !== undefined) {
+    if (!Array.isArray(m.holes)) {
+      throw new RegisterMapError("Register map holes is not an array");
+    }
+    map.holes = m.holes.map((hole, i) => {
+      const h = (hole ?? {}) as Record<string, unknown>;
+      return {
+        start: parseNumber(h.start, `start of hole ${i}`),
+        end: parseNumber(h.end, `end of hole ${i}`),
+      };
+    });
+  }
+  return map;
+}
+
+/**
+ * Load a register map from a JSON or YAML file. The format is chosen by
+ * file extension (`.json`, `.yaml`, `.yml`).
+ */
+export async function loadRegisterMap(path: string): Promise<RegisterMap> {
+  const text = await readFile(path, "utf8");
+  let raw: unknown;
+  try {
+    raw = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new RegisterMapError(
+      `Cannot parse register map ${path}: ${(err as Error).message}`
+    );
+  }
+  return parseRegisterMap(raw);
+}
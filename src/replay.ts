@@ -0,0 +1,364 @@
+/**
+ * Capture replay – plays back the logger's side of a recorded V5 session.
+ *
+ * Every time the client sends the next recorded frame, the frames the
+ * logger sent after it are played back. Response sequence numbers are
+ * rewritten to match the live client, so responses that tripped up the
+ * decoder can be reproduced byte for byte. `CaptureReplayServer` serves a
+ * capture from a local port; `ReplayTransport` feeds it straight into a
+ * `SolarmanV5` instance.
+ */
+
+import net from "node:net";
+import { EventEmitter } from "node:events";
+import {
+  ControlCode,
+  nullLogger,
+  createConsoleLogger,
+} from "./solarmanv5.js";
+import type { Logger } from "./solarmanv5.js";
+import { V5FrameAccumulator } from "./stream.js";
+import type { CaptureEntry } from "./capture.js";
+import type { Transport, TransportEvents } from "./transport.js";
+
+// ---------- Player ----------
+
+/** Cursor over a capture, shared by the replay server and transport */
+class CapturePlayer {
+  private readonly capture: CaptureEntry[];
+  private cursor = 0;
+
+  constructor(capture: CaptureEntry[]) {
+    this.capture = capture;
+  }
+
+  get remaining(): number {
+    return this.capture.length - this.cursor;
+  }
+
+  rewind(): void {
+    this.cursor = 0;
+  }
+
+  /**
+   * Consume the recorded counterpart of a frame from the client. Returns
+   * null if the capture is exhausted.
+   */
+  expect(): Buffer | null {
+    // The entry at the cursor is always a sent frame after replies()
+    const entry = this.capture[this.cursor];
+    if (!entry) return null;
+    this.cursor++;
+    return entry.frame;
+  }
+
+  /** Take the received frames at the cursor, up to the next sent frame */
+  replies(request: Buffer | null): Buffer[] {
+    const frames: Buffer[] = [];
+    while (this.cursor < this.capture.length) {
+      const entry = this.capture[this.cursor];
+      if (entry.direction === "sent") break;
+      this.cursor++;
+      frames.push(request ? CaptureReplayServer.answer(entry.frame, request) : entry.frame);
+    }
+    return frames;
+  }
+}
+
+// ---------- Options ----------
+
+export interface CaptureReplayServerOptions {
+  /** Recorded session, e.g. from `loadCapture()` */
+  capture: CaptureEntry[];
+  /** TCP port to listen on. Default: 8899 */
+  port?: number;
+  /** Address to bind to. Default: "127.0.0.1" */
+  host?: string;
+  /** Enable verbose/debug logging. Default: false */
+  verbose?: boolean;
+  /** Custom logger instance */
+  logger?: Logger;
+}
+
+// ---------- Events ----------
+
+export interface CaptureReplayServerEvents {
+  listening: [address: net.AddressInfo];
+  connect: [remoteAddress: string];
+  disconnect: [remoteAddress: string];
+  /** The client sent a frame that differs from the recorded one */
+  mismatch: [expected: Buffer, actual: Buffer];
+  /** Every frame of the capture has been replayed */
+  end: [];
+  error: [err: Error];
+}
+
+// ---------- Main class ----------
+
+export class CaptureReplayServer extends EventEmitter<CaptureReplayServerEvents> {
+  public readonly port: number;
+  public readonly host: string;
+
+  private readonly player: CapturePlayer;
+  private log: Logger;
+  private server: net.Server | null = null;
+  private readonly sockets = new Set<net.Socket>();
+  private ended = false;
+
+  constructor(options: CaptureReplayServerOptions) {
+    super();
+
+    this.player = new CapturePlayer(options.capture);
+    this.port = options.port ?? 8899;
+    this.host = options.host ?? "127.0.0.1";
+
+    if (Number.isNaN(this.port)) {
+      throw new Error(`Invalid port: ${options.port}`);
+    }
+
+    if (options.logger) {
+      this.log = options.logger;
+    } else if (options.verbose) {
+      this.log = createConsoleLogger();
+    } else {
+      this.log = nullLogger;
+    }
+  }
+
+  /** Number of capture entries not yet replayed */
+  get remaining(): number {
+    return this.player.remaining;
+  }
+
+  /** Start again from the first capture entry */
+  rewind(): void {
+    this.player.rewind();
+    this.ended = false;
+  }
+
+  /** Address the server is bound to, or null if not listening */
+  address(): net.AddressInfo | null {
+    const address = this.server?.address();
+    return address && typeof address === "object" ? address : null;
+  }
+
+  // ---------- Lifecycle ----------
+
+  /** Start accepting connections */
+  async listen(): Promise<void> {
+    if (this.server) return;
+
+    return new Promise<void>((resolve, reject) => {
+      const server = net.createServer((socket) => this.handleConnection(socket));
+
+      const onError = (err: Error) => {
+        server.removeListener("listening", onListening);
+        reject(err);
+      };
+
+      const onListening = () => {
+        server.removeListener("error", onError);
+        server.on("error", (err) => this.emit("error", err));
+        this.server = server;
+        const address = this.address()!;
+        this.log.debug(`Replaying capture on ${address.address}:${address.port}`);
+        this.emit("listening", address);
+        resolve();
+      };
+
+      server.once("error", onError);
+      server.once("listening", onListening);
+      server.listen(this.port, this.host);
+    });
+  }
+
+  /** Stop listening and drop all connections */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+
+    return new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+
+  // ---------- Connection handling ----------
+
+  private handleConnection(socket: net.Socket): void {
+    const remoteAddress = `${socket.remoteAddress}:${socket.remotePort}`;
+    const accumulator = new V5FrameAccumulator({
+      onDiscard: (bytes) =>
+        this.log.debug(`[${remoteAddress}] V5_MISMATCH: ${bytes.toString("hex")}`),
+    });
+
+    this.sockets.add(socket);
+    this.log.debug(`Connection from ${remoteAddress}`);
+    this.emit("connect", remoteAddress);
+
+    // Frames the logger sent before the client's first frame
+    this.replayReceived(socket, null);
+
+    socket.on("data", (data: Buffer) => {
+      for (const frame of accumulator.push(data)) {
+        this.handleFrame(socket, frame);
+      }
+    });
+
+    socket.on("close", () => {
+      this.sockets.delete(socket);
+      this.log.debug(`[${remoteAddress}] Connection closed`);
+      this.emit("disconnect", remoteAddress);
+    });
+
+    socket.on("error", (err: Error) => {
+      this.log.debug(`[${remoteAddress}] Socket error: ${err.message}`);
+    });
+  }
+
+  private handleFrame(socket: net.Socket, frame: Buffer): void {
+    this.log.debug(`RECD: ${frame.toString("hex")}`);
+    const expected = this.player.expect();
+    if (!expected) {
+      this.log.debug("Capture exhausted, not answering");
+      return;
+    }
+
+    if (!CaptureReplayServer.framesMatch(expected, frame)) {
+      this.log.debug(`Expected ${expected.toString("hex")}`);
+      this.emit("mismatch", expected, frame);
+    }
+    this.replayReceived(socket, frame);
+  }
+
+  /** Send the received entries at the cursor, up to the next sent entry */
+  private replayReceived(socket: net.Socket, request: Buffer | null): void {
+    for (const frame of this.player.replies(request)) {
+      this.log.debug(`SENT: ${frame.toString("hex")}`);
+      if (!socket.destroyed) {
+        socket.write(frame);
+      }
+    }
+    if (this.player.remaining === 0 && !this.ended) {
+      this.ended = true;
+      this.emit("end");
+    }
+  }
+
+  /**
+   * Compare a live client frame with the recorded one. Sequence numbers,
+   * timestamps and checksums differ between sessions, so only the control
+   * code and, for requests, the Modbus frame are compared.
+   */
+  static framesMatch(expected: Buffer, actual: Buffer): boolean {
+    if (expected[4] !== actual[4]) return false;
+    if (actual[4] !== ControlCode.REQUEST) return true;
+    return expected
+      .subarray(26, expected.length - 2)
+      .equals(actual.subarray(26, actual.length - 2));
+  }
+
+  /**
+   * Give a recorded response the sequence number of the live request. The
+   * checksum is adjusted by the same delta, so a recorded checksum error
+   * is preserved.
+   */
+  static answer(recorded: Buffer, request: Buffer): Buffer {
+    if (recorded.length < 13 || recorded[4] !== request[4] - 0x30) {
+      return recorded;
+    }
+    const frame = Buffer.from(recorded);
+    const checksumIndex = frame.length - 2;
+    frame[checksumIndex] = (frame[checksumIndex] + request[5] - frame[5] + 0x100) & 0xff;
+    frame[5] = request[5];
+    return frame;
+  }
+}
+
+// ---------- Replay transport ----------
+
+export interface ReplayTransportOptions {
+  /** Called when the client sends a frame that differs from the recorded one */
+  onMismatch?: (expected: Buffer, actual: Buffer) => void;
+}
+
+/**
+ * In-process transport that answers a `SolarmanV5` client from a capture,
+ * without opening a socket. Reconnects continue where the capture left off.
+ */
+export class ReplayTransport extends EventEmitter<TransportEvents> implements Transport {
+  private readonly player: CapturePlayer;
+  private readonly onMismatch: ReplayTransportOptions["onMismatch"];
+  private accumulator: V5FrameAccumulator | null = null;
+  /** Incremented on every connect, to spot a close from an earlier connection */
+  private generation = 0;
+
+  constructor(capture: CaptureEntry[], options: ReplayTransportOptions = {}) {
+    super();
+    this.player = new CapturePlayer(capture);
+    this.onMismatch = options.onMismatch;
+  }
+
+  get isOpen(): boolean {
+    return this.accumulator !== null;
+  }
+
+  /** Number of capture entries not yet replayed */
+  get remaining(): number {
+    return this.player.remaining;
+  }
+
+  async connect(): Promise<void> {
+    if (this.accumulator) return;
+    this.generation++;
+    this.accumulator = new V5FrameAccumulator();
+    this.deliver(this.player.replies(null));
+  }
+
+  write(data: Buffer): void {
+    if (!this.accumulator) {
+      throw new Error("Transport is not open");
+    }
+    for (const frame of this.accumulator.push(data)) {
+      const expected = this.player.expect();
+      if (!expected) continue;
+      if (!CaptureReplayServer.framesMatch(expected, frame)) {
+        this.onMismatch?.(expected, frame);
+      }
+      this.deliver(this.player.replies(frame));
+    }
+  }
+
+  async close(): Promise<void> {
+    this.destroy();
+  }
+
+  destroy(): void {
+    if (!this.accumulator) return;
+    this.accumulator = null;
+    const generation = this.generation;
+    setImmediate(() => {
+      // Reopened in the meantime: the close belongs to the old connection
+      if (this.generation === generation) {
+        this.emit("close");
+      }
+    });
+  }
+
+  /** Emit frames asynchronously, as a socket would */
+  private deliver(frames: Buffer[]): void {
+    if (frames.length === 0) return;
+    const accumulator = this.accumulator;
+    setImmediate(() => {
+      // Frames for a closed connection are lost, as on a socket
+      if (this.accumulator !== accumulator) return;
+      for (const frame of frames) {
+        this.emit("data", frame);
+      }
+    });
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * SolarmanV5Server – local receiver for data logger push connections.
+ *
+ * Data logging sticks push the data they collect to up to three remote
+ * servers. Pointing the editable "Server B" slot at this server makes the
+ * logger deliver the same HANDSHAKE/DATA/INFO/HEARTBEAT/REPORT frames it
+ * sends to the Solarman cloud. Every frame is answered with a time response
+ * frame, which is what keeps the logger pushing.
+ */
+
+import net from "node:net";
+import { EventEmitter } from "node:events";
+import {
+  SolarmanV5,
+  ControlCode,
+  nullLogger,
+  createConsoleLogger,
+} from "./solarmanv5.js";
+import type { ControlCodeValue, Logger } from "./solarmanv5.js";
+import { parseDataFrame, parseInfoFrame } from "./payloads.js";
+import { V5FrameAccumulator } from "./stream.js";
+import type { LoggerDataFrame, LoggerInfo } from "./payloads.js";
+
+// ---------- Options ----------
+
+export interface SolarmanV5ServerOptions {
+  /** TCP port to listen on. Default: 10000 */
+  port?: number;
+  /** Address to bind to. Default: "0.0.0.0" */
+  host?: string;
+  /** Drop loggers that stay silent for this many seconds. Default: 300 */
+  socketTimeout?: number;
+  /** Enable verbose/debug logging. Default: false */
+  verbose?: boolean;
+  /** Custom logger instance */
+  logger?: Logger;
+}
+
+// ---------- Events ----------
+
+/** A frame pushed by a data logging stick */
+export interface LoggerFrame {
+  /** Logger serial number */
+  serial: number;
+  /** V5 control code (see `ControlCode`) */
+  controlCode: ControlCodeValue;
+  /** Sequence number sent by the logger */
+  sequence: number;
+  /** V5 payload (everything between header and trailer) */
+  payload: Buffer;
+  /** Complete V5 frame */
+  frame: Buffer;
+  /** Remote address of the logger connection */
+  remoteAddress: string;
+  /** Time the frame was received */
+  receivedAt: Date;
+}
+
+export interface SolarmanV5ServerEvents {
+  listening: [address: net.AddressInfo];
+  /** First frame received from a logger on a new connection */
+  connect: [serial: number, remoteAddress: string];
+  /** Logger connection closed */
+  disconnect: [serial: number, remoteAddress: string];
+  /** Any frame received from a logger */
+  frame: [frame: LoggerFrame];
+  handshake: [frame: LoggerFrame];
+  /** DATA frame, with its register blocks if the payload could be decoded */
+  data: [frame: LoggerFrame, data: LoggerDataFrame | null];
+  /** INFO frame, with the logger metadata if the payload could be decoded */
+  info: [frame: LoggerFrame, info: LoggerInfo | null];
+  heartbeat: [frame: LoggerFrame];
+  report: [frame: LoggerFrame];
+  error: [err: Error];
+}
+
+const FRAME_EVENTS: Partial<
+  Record<number, "handshake" | "data" | "info" | "heartbeat" | "report">
+> = {
+  [ControlCode.HANDSHAKE]: "handshake",
+  [ControlCode.DATA]: "data",
+  [ControlCode.INFO]: "info",
+  [ControlCode.HEARTBEAT]: "heartbeat",
+  [ControlCode.REPORT]: "report",
+};
+
+// ---------- Main class ----------
+
+export class SolarmanV5Server extends EventEmitter<SolarmanV5ServerEvents> {
+  public readonly port: number;
+  public readonly host: string;
+  public readonly socketTimeout: number;
+
+  private log: Logger;
+  private server: net.Server | null = null;
+  private readonly sockets = new Map<net.Socket, number | null>();
+
+  constructor(options: SolarmanV5ServerOptions = {}) {
+    super();
+
+    this.port = options.port ?? 10000;
+    this.host = options.host ?? "0.0.0.0";
+    this.socketTimeout = options.socketTimeout ?? 300;
+
+    if (Number.isNaN(this.port)) {
+      throw new Error(`Invalid port: ${options.port}`);
+    }
+    if (Number.isNaN(this.socketTimeout)) {
+      throw new Error(`Invalid socketTimeout: ${options.socketTimeout}`);
+    }
+
+    if (options.logger) {
+      this.log = options.logger;
+    } else if (options.verbose) {
+      this.log = createConsoleLogger();
+    } else {
+      this.log = nullLogger;
+    }
+  }
+
+  /** Serial numbers of the currently connected loggers */
+  get loggers(): number[] {
+    const serials = new Set<number>();
+    for (const serial of this.sockets.values()) {
+      if (serial !== null) serials.add(serial);
+    }
+    return [...serials];
+  }
+
+  /** Address the server is bound to, or null if not listening */
+  address(): net.AddressInfo | null {
+    const address = this.server?.address();
+    return address && typeof address === "object" ? address : null;
+  }
+
+  // ---------- Lifecycle ----------
+
+  /** Start listening for logger connections */
+  async listen(): Promise<void> {
+    if (this.server) return;
+
+    return new Promise<void>((resolve, reject) => {
+      const server = net.createServer((socket) => this.handleConnection(socket));
+
+      const onError = (err: Error) => {
+        server.removeListener("listening", onListening);
+        reject(err);
+      };
+
+      const onListening = () => {
+        server.removeListener("error", onError);
+        server.on("error", (err) => this.emit("error", err));
+        this.server = server;
+        const address = this.address()!;
+        this.log.debug(`Listening on ${address.address}:${address.port}`);
+        this.emit("listening", address);
+        resolve();
+      };
+
+      server.once("error", onError);
+      server.once("listening", onListening);
+      server.listen(this.port, this.host);
+    });
+  }
+
+  /** Stop listening and drop all logger connections */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    for (const socket of this.sockets.keys()) {
+      socket.destroy();
+    }
+
+    return new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+
+  // ---------- Connection handling ----------
+
+  private handleConnection(socket: net.Socket): void {
+    const remoteAddress = `${socket.remoteAddress}:${socket.remotePort}`;
+    const accumulator = new V5FrameAccumulator({
+      onDiscard: (bytes) =>
+        this.log.debug(`[${remoteAddress}] V5_MISMATCH: ${bytes.toString("hex")}`),
+    });
+
+    this.log.debug(`Connection from ${remoteAddress}`);
+    this.sockets.set(socket, null);
+    socket.setTimeout(this.socketTimeout * 1000);
+
+    socket.on("data", (data: Buffer) => {
+      this.log.debug(`[${remoteAddress}] RAW RECD: ${data.toString("hex")}`);
+      for (const frame of accumulator.push(data)) {
+        this.handleFrame(socket, remoteAddress, frame);
+      }
+    });
+
+    socket.on("close", () => {
+      const serial = this.sockets.get(socket) ?? null;
+      this.sockets.delete(socket);
+      this.log.debug(`[${remoteAddress}] Connection closed`);
+      if (serial !== null) {
+        this.emit("disconnect", serial, remoteAddress);
+      }
+    });
+
+    socket.on("error", (err: Error) => {
+      this.log.debug(`[${remoteAddress}] Socket error: ${err.message}`);
+    });
+
+    socket.on("timeout", () => {
+      this.log.debug(`[${remoteAddress}] Socket timeout`);
+      socket.destroy();
+    });
+  }
+
+  private handleFrame(
+    socket: net.Socket,
+    remoteAddress: string,
+    frame: Buffer
+  ): void {
+    const serial = frame.readUInt32LE(7);
+    const eventName = FRAME_EVENTS[frame[4]];
+
+    if (!eventName) {
+      this.log.debug(
+        `[${serial}] V5_UNKNOWN_CONTROL_CODE: ${frame.toString("hex")}`
+      );
+      return;
+    }
+
+    const responseFrame = SolarmanV5.timeResponseFrame(frame);
+    this.log.debug(
+      `[${serial}] V5_${eventName.toUpperCase()}: ${frame.toString("hex")}`
+    );
+    this.log.debug(
+      `[${serial}] V5_${eventName.toUpperCase()} RESP: ${responseFrame.toString("hex")}`
+    );
+    if (!socket.destroyed) {
+      socket.write(responseFrame);
+    }
+
+    if (this.sockets.get(socket) !== serial) {
+      this.sockets.set(socket, serial);
+      this.emit("connect", serial, remoteAddress);
+    }
+
+    const loggerFrame: LoggerFrame = {
+      serial,
+      controlCode: frame[4] as ControlCodeValue,
+      sequence: frame[5],
+      payload: frame.subarray(11, frame.length - 2),
+      frame,
+      remoteAddress,
+      receivedAt: new Date(),
+    };
+    this.emit("frame", loggerFrame);
+    if (eventName === "data") {
+      this.emit("data", loggerFrame, this.decodePayload(frame, parseDataFrame));
+    } else if (eventName === "info") {
+      this.emit("info", loggerFrame, this.decodePayload(frame, parseInfoFrame));
+    } else {
+      this.emit(eventName, loggerFrame);
+    }
+  }
+
+  /** Run a payload parser, logging and returning null if it fails */
+  private decodePayload<T>(frame: Buffer, parse: (frame: Buffer) => T): T | null {
+    try {
+      return parse(frame);
+    } catch (err) {
+      this.log.debug(
+        `[${frame.readUInt32LE(7)}] Payload not decoded: ${(err as Error).message}`
+      );
+      return null;
+    }
+  }
+}
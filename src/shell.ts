@@ -0,0 +1,527 @@
+/**
+ * Interactive shell – a REPL on one SolarmanV5 connection for exploring a
+ * logger without reconnecting for every command.
+ *
+ * Commands read and write registers (`rh 0x0200 16`, `wh 0x010a 1`), watch
+ * registers for changes, decode V5 frames and load a register map. With a
+ * map loaded, fields can be used in place of addresses and reads show the
+ * decoded field values.
+ */
+
+import * as readline from "node:readline";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { decode } from "./decoder.js";
+import {
+  decodeRegisterMap,
+  fieldCount,
+  fieldTable,
+  loadRegisterMap,
+} from "./registermap.js";
+import { parseCoil, parseNumber } from "./args.js";
+import { PROFILES } from "./profiles.js";
+import { Poller } from "./poller.js";
+import { OUTPUT_FORMATS, bitRows, formatRecord, formatRows, hex16, registerRows } from "./output.js";
+import type { SolarmanV5 } from "./solarmanv5.js";
+import type { RegisterField, RegisterMap, RegisterTable } from "./registermap.js";
+import type { OutputFormat } from "./output.js";
+import type { PollChangeEvent, PollSample } from "./poller.js";
+
+// ---------- Options ----------
+
+export interface SolarmanShellOptions {
+  /** Input stream. Default: process.stdin */
+  input?: NodeJS.ReadableStream;
+  /** Output stream. Default: process.stdout */
+  output?: NodeJS.WritableStream;
+  /** Register map for named fields */
+  map?: RegisterMap;
+  /** Output format of command results. Default: "table" */
+  format?: OutputFormat;
+  /** File the command history is loaded from and saved to */
+  historyFile?: string;
+  /** Number of history lines kept. Default: 500 */
+  historySize?: number;
+  /** Prompt. Default: "solarman> " */
+  prompt?: string;
+}
+
+/** Invalid shell command or argument */
+export class ShellError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShellError";
+  }
+}
+
+interface ShellCommand {
+  usage: string;
+  description: string;
+  run: (args: string[]) => Promise<string>;
+}
+
+// ---------- Helpers ----------
+
+function formatFieldValue(field: { value: number | string; unit?: string; label?: string }): string {
+  let text = String(field.value);
+  if (field.unit) text += ` ${field.unit}`;
+  if (field.label !== undefined) text += ` (${field.label})`;
+  return text;
+}
+
+// ---------- Main class ----------
+
+export class SolarmanShell {
+  public readonly client: SolarmanV5;
+
+  private map: RegisterMap | null;
+  private format: OutputFormat;
+  private readonly input: NodeJS.ReadableStream;
+  private readonly output: NodeJS.WritableStream;
+  private readonly historyFile?: string;
+  private readonly historySize: number;
+  private readonly prompt: string;
+  private history: string[] = [];
+  private watcher: Poller | null = null;
+  private readonly commands: Record<string, ShellCommand>;
+
+  constructor(client: SolarmanV5, options: SolarmanShellOptions = {}) {
+    this.client = client;
+    this.map = options.map ?? null;
+    this.format = options.format ?? "table";
+    this.input = options.input ?? process.stdin;
+    this.output = options.output ?? process.stdout;
+    this.historyFile = options.historyFile;
+    this.historySize = options.historySize ?? 500;
+    this.prompt = options.prompt ?? "solarman> ";
+
+    this.commands = {
+      rh: {
+        usage: "rh <addr|field> [qty]",
+        description: "Read holding registers (FC 3)",
+        run: (args) => this.readRegisters("holding", args),
+      },
+      ri: {
+        usage: "ri <addr|field> [qty]",
+        description: "Read input registers (FC 4)",
+        run: (args) => this.readRegisters("input", args),
+      },
+      rc: {
+        usage: "rc <addr> [qty]",
+        description: "Read coils (FC 1)",
+        run: (args) => this.readBits("coils", args),
+      },
+      rd: {
+        usage: "rd <addr> [qty]",
+        description: "Read discrete inputs (FC 2)",
+        run: (args) => this.readBits("discrete", args),
+      },
+      wh: {
+        usage: "wh <addr|field> <value...>",
+        description: "Write holding registers (FC 6, or FC 16 for several values)",
+        run: (args) => this.writeRegisters(args),
+      },
+      wc: {
+        usage: "wc <addr> <on|off...>",
+        description: "Write coils (FC 5, or FC 15 for several values)",
+        run: (args) => this.writeCoils(args),
+      },
+      mw: {
+        usage: "mw <addr|field> <or-mask> <and-mask>",
+        description: "Masked write: (current OR or-mask) AND and-mask",
+        run: (args) => this.maskWrite(args),
+      },
+      get: {
+        usage: "get [field...]",
+        description: "Read fields of the register map (all if none given)",
+        run: (args) => this.readFields(args),
+      },
+      watch: {
+        usage: "watch <addr|field> [qty] [interval-ms]",
+        description: "Poll holding registers and print changes until Enter",
+        run: (args) => this.watch(args),
+      },
+      decode: {
+        usage: "decode <hex...>",
+        description: "Decode a V5 frame",
+        run: async (args) => {
+          if (args.length === 0) throw new ShellError("Usage: decode <hex...>");
+          return decode(args);
+        },
+      },
+      map: {
+        usage: "map [file|profile]",
+        description: "Load a register map (JSON/YAML file or built-in profile), or list its fields",
+        run: (args) => this.loadMap(args),
+      },
+      format: {
+        usage: "format [table|json|csv|ndjson]",
+        description: "Show or set the output format",
+        run: async (args) => {
+          if (args.length === 0) return this.format;
+          if (!OUTPUT_FORMATS.includes(args[0] as OutputFormat)) {
+            throw new ShellError(`Unknown format: ${args[0]}`);
+          }
+          this.format = args[0] as OutputFormat;
+          return "";
+        },
+      },
+      history: {
+        usage: "history",
+        description: "List previous commands",
+        run: async () =>
+          [...this.history]
+            .reverse()
+            .map((line, i) => `${String(i + 1).padStart(4)}  ${line}`)
+            .join("\n"),
+      },
+      help: {
+        usage: "help",
+        description: "List commands",
+        run: async () => this.help(),
+      },
+      exit: {
+        usage: "exit",
+        description: "Leave the shell (also quit or Ctrl-D)",
+        run: async () => "",
+      },
+    };
+  }
+
+  /** Whether a `watch` is running */
+  get isWatching(): boolean {
+    return this.watcher !== null;
+  }
+
+  // ---------- Execution ----------
+
+  /**
+   * Run one command line and return its output. `exit` is handled by
+   * `run()`; here it does nothing.
+   *
+   * @throws ShellError on unknown commands and invalid arguments,
+   *         ArgumentError on invalid numbers and coil states, and any
+   *         client error of the command
+   */
+  async execute(line: string): Promise<string> {
+    const [name, ...args] = line.trim().split(/\s+/);
+    if (!name) return "";
+    const command = this.commands[name === "quit" ? "exit" : name];
+    if (!command) {
+      throw new ShellError(`Unknown command: ${name} (try "help")`);
+    }
+    return command.run(args);
+  }
+
+  /** Tab completion of command names, field names, formats and profiles */
+  complete(line: string): [string[], string] {
+    const words = line.split(/\s+/);
+    const word = words[words.length - 1];
+    let candidates: string[];
+    if (words.length === 1) {
+      candidates = [...Object.keys(this.commands), "quit"];
+    } else if (words[0] === "format") {
+      candidates = [...OUTPUT_FORMATS];
+    } else if (words[0] === "map") {
+      candidates = Object.keys(PROFILES);
+    } else if (words[0] === "help") {
+      candidates = [];
+    } else {
+      candidates = this.map?.fields.map((field) => field.name) ?? [];
+    }
+    const hits = candidates.filter((candidate) => candidate.startsWith(word));
+    return [hits.sort(), word];
+  }
+
+  /** Stop a running `watch` */
+  stopWatch(): void {
+    this.watcher?.stop();
+    this.watcher = null;
+  }
+
+  /**
+   * Read commands from the input until `exit` or end of input. A line
+   * entered during `watch` stops the watch.
+   */
+  async run(): Promise<void> {
+    if (this.historyFile) {
+      this.history = await readFile(this.historyFile, "utf8").then(
+        (text) => text.split("\n").filter(Boolean).reverse().slice(0, this.historySize),
+        () => []
+      );
+    }
+
+    const terminal = (this.output as NodeJS.WriteStream).isTTY === true;
+    const rl = readline.createInterface({
+      input: this.input,
+      output: this.output,
+      prompt: this.prompt,
+      completer: (line: string) => this.complete(line),
+      history: this.history,
+      historySize: this.historySize,
+      terminal,
+    });
+    rl.on("history", (history: string[]) => {
+      this.history = history;
+    });
+
+    let queue = Promise.resolve();
+    let closed = false;
+    const prompt = () => {
+      if (!closed) rl.prompt();
+    };
+    const handle = async (line: string) => {
+      // readline keeps the history itself only on a terminal
+      if (!terminal && line.trim() !== "" && line !== this.history[0]) {
+        this.history = [line, ...this.history].slice(0, this.historySize);
+      }
+      const name = line.trim().split(/\s+/)[0];
+      if (name === "exit" || name === "quit") {
+        rl.close();
+        return;
+      }
+      try {
+        const text = await this.execute(line);
+        if (text !== "") this.output.write(`${text}\n`);
+      } catch (err) {
+        this.output.write(`Error: ${(err as Error).message}\n`);
+      }
+      if (!this.isWatching) prompt();
+    };
+
+    await new Promise<void>((resolve) => {
+      rl.on("line", (line) => {
+        if (this.isWatching) {
+          this.stopWatch();
+          prompt();
+          return;
+        }
+        queue = queue.then(() => handle(line));
+      });
+      rl.on("SIGINT", () => {
+        if (this.isWatching) {
+          this.stopWatch();
+          this.output.write("\n");
+        } else {
+          rl.write(null, { ctrl: true, name: "u" });
+          this.output.write("\n");
+        }
+        rl.prompt();
+      });
+      rl.on("close", () => {
+        closed = true;
+        this.stopWatch();
+        queue.then(() => resolve());
+      });
+      rl.prompt();
+    });
+
+    if (this.historyFile) {
+      const lines = [...this.history].reverse().join("\n");
+      await mkdir(dirname(this.historyFile), { recursive: true })
+        .then(() => writeFile(this.historyFile!, lines === "" ? "" : `${lines}\n`))
+        .catch(() => {});
+    }
+  }
+
+  // ---------- Arguments ----------
+
+  private field(name: string): RegisterField {
+    const field = this.map?.fields.find((f) => f.name === name);
+    if (!field) {
+      throw new ShellError(
+        this.map ? `Unknown field: ${name}` : `Not a number: ${name} (no register map loaded)`
+      );
+    }
+    return field;
+  }
+
+  /** Address and default quantity of a numeric address or a field name */
+  private location(arg: string | undefined, usage: string): { address: number; quantity: number } {
+    if (arg === undefined) throw new ShellError(`Usage: ${usage}`);
+    if (/^(0x[0-9a-f]+|\d+)$/i.test(arg)) {
+      return { address: parseNumber(arg), quantity: 1 };
+    }
+    const field = this.field(arg);
+    return { address: field.address, quantity: fieldCount(field) };
+  }
+
+  // ---------- Commands ----------
+
+  private async readRegisters(table: RegisterTable, args: string[]): Promise<string> {
+    const location = this.location(args[0], this.commands[table === "input" ? "ri" : "rh"].usage);
+    const quantity = args[1] !== undefined ? parseNumber(args[1]) : location.quantity;
+    const values =
+      table === "input"
+        ? await this.client.readInputRegisters(location.address, quantity)
+        : await this.client.readHoldingRegisters(location.address, quantity);
+
+    const rows = registerRows(location.address, values).map(({ scaled, ...row }) => row);
+    if (!this.map) return formatRows(rows, this.format);
+
+    // Name each register after the field it belongs to, and show the
+    // decoded value on the first register of every complete field
+    const registers = new Map(values.map((value, i) => [location.address + i, value]));
+    const fields = this.map.fields.filter((field) => fieldTable(field) === table);
+    const decoded = decodeRegisterMap({ ...this.map, fields }, registers);
+    return formatRows(
+      rows.map((row) => {
+        const field = fields.find(
+          (f) => row.address >= f.address && row.address < f.address + fieldCount(f)
+        );
+        const value = field && decoded[field.name];
+        return {
+          ...row,
+          field: field?.name ?? "",
+          decoded: value && field.address === row.address ? formatFieldValue(value) : "",
+        };
+      }),
+      this.format
+    );
+  }
+
+  private async readBits(table: "coils" | "discrete", args: string[]): Promise<string> {
+    if (args[0] === undefined) {
+      throw new ShellError(`Usage: ${this.commands[table === "coils" ? "rc" : "rd"].usage}`);
+    }
+    const address = parseNumber(args[0]);
+    const quantity = args[1] !== undefined ? parseNumber(args[1]) : 1;
+    const values =
+      table === "coils"
+        ? await this.client.readCoils(address, quantity)
+        : await this.client.readDiscreteInputs(address, quantity);
+    return formatRows(bitRows(address, values), this.format);
+  }
+
+  private async writeRegisters(args: string[]): Promise<string> {
+    const { address } = this.location(args[0], this.commands.wh.usage);
+    if (args.length < 2) throw new ShellError(`Usage: ${this.commands.wh.usage}`);
+    const values = args.slice(1).map(parseNumber);
+    if (values.length === 1) {
+      const value = await this.client.writeHoldingRegister(address, values[0]);
+      return formatRecord({ address, addressHex: hex16(address), value, hex: hex16(value) }, this.format);
+    }
+    const [quantity] = await this.client.writeMultipleHoldingRegisters(address, values);
+    return formatRecord({ address, addressHex: hex16(address), quantity }, this.format);
+  }
+
+  private async writeCoils(args: string[]): Promise<string> {
+    if (args.length < 2) throw new ShellError(`Usage: ${this.commands.wc.usage}`);
+    const address = parseNumber(args[0]);
+    const values = args.slice(1).map(parseCoil);
+    if (values.length === 1) {
+      const value = await this.client.writeSingleCoil(address, values[0] ? 0xff00 : 0x0000);
+      return formatRecord(
+        { address, addressHex: hex16(address), value: value === 0xff00 ? 1 : 0 },
+        this.format
+      );
+    }
+    const [quantity] = await this.client.writeMultipleCoils(address, values);
+    return formatRecord({ address, addressHex: hex16(address), quantity }, this.format);
+  }
+
+  private async maskWrite(args: string[]): Promise<string> {
+    const { address } = this.location(args[0], this.commands.mw.usage);
+    if (args.length < 3) throw new ShellError(`Usage: ${this.commands.mw.usage}`);
+    const value = await this.client.maskedWriteHoldingRegister(
+      address,
+      parseNumber(args[1]),
+      parseNumber(args[2])
+    );
+    return formatRecord({ address, addressHex: hex16(address), value, hex: hex16(value) }, this.format);
+  }
+
+  private async readFields(args: string[]): Promise<string> {
+    if (!this.map) throw new ShellError("No register map loaded (see \"map\")");
+    const fields = args.length > 0 ? args.map((name) => this.field(name)) : this.map.fields;
+    const values = await this.client.readMap({ ...this.map, fields });
+    return formatRows(
+      fields
+        .filter((field) => values[field.name])
+        .map((field) => ({
+          field: field.name,
+          address: field.address,
+          addressHex: hex16(field.address),
+          value: values[field.name].value,
+          unit: field.unit ?? "",
+          label: values[field.name].label ?? "",
+        })),
+      this.format
+    );
+  }
+
+  private async watch(args: string[]): Promise<string> {
+    const location = this.location(args[0], this.commands.watch.usage);
+    const quantity = args[1] !== undefined ? parseNumber(args[1]) : location.quantity;
+    const interval = args[2] !== undefined ? parseNumber(args[2]) : 1000;
+    const end = location.address + quantity;
+
+    // With a map, watch the holding fields within the range by name
+    const fields = (this.map?.fields ?? []).filter(
+      (f) => fieldTable(f) === "holding" && f.address >= location.address && f.address + fieldCount(f) <= end
+    );
+    const addresses = Array.from({ length: quantity }, (_, i) => location.address + i);
+    const poller = new Poller(this.client, [
+      fields.length > 0
+        ? { name: "watch", interval, map: { ...this.map!, fields } }
+        : { name: "watch", interval, addresses },
+    ]);
+
+    let first = true;
+    const line = (timestamp: Date, key: string, value: unknown, previous?: unknown) => {
+      if (this.format === "table") {
+        const change = previous === undefined ? "" : `${previous} -> `;
+        return `${timestamp.toISOString()}  ${key}: ${change}${value}`;
+      }
+      return JSON.stringify({ time: timestamp, key, value, previous });
+    };
+    poller.on("sample", (sample: PollSample) => {
+      if (!first) return;
+      first = false;
+      const entries = sample.values
+        ? Object.entries(sample.values).map(([key, field]) => [key, formatFieldValue(field)])
+        : [...sample.registers].map(([address, value]) => [hex16(address), value]);
+      for (const [key, value] of entries) {
+        this.output.write(`${line(sample.timestamp, String(key), value)}\n`);
+      }
+    });
+    poller.on("change", (event: PollChangeEvent) => {
+      for (const change of event.changes) {
+        this.output.write(`${line(event.timestamp, change.key, change.current, change.previous)}\n`);
+      }
+    });
+    poller.on("error", (err: Error) => this.output.write(`Error: ${err.message}\n`));
+
+    this.stopWatch();
+    this.watcher = poller;
+    poller.start();
+    return `Watching ${hex16(location.address)}..${hex16(end - 1)} every ${interval} ms, press Enter to stop`;
+  }
+
+  private async loadMap(args: string[]): Promise<string> {
+    if (args.length > 0) {
+      this.map = Object.hasOwn(PROFILES, args[0])
+        ? PROFILES[args[0]]
+        : await loadRegisterMap(args[0]);
+    }
+    if (!this.map) return "No register map loaded";
+    return formatRows(
+      this.map.fields.map((field) => ({
+        field: field.name,
+        table: fieldTable(field),
+        address: field.address,
+        addressHex: hex16(field.address),
+        count: fieldCount(field),
+        unit: field.unit ?? "",
+      })),
+      this.format
+    );
+  }
+
+  private help(): string {
+    const width = Math.max(...Object.values(this.commands).map((c) => c.usage.length));
+    return Object.values(this.commands)
+      .map((command) => `${command.usage.padEnd(width)}  ${command.description}`)
+      .join("\n");
+  }
+}
@@ -0,0 +1,595 @@
+/**
+ * SolarmanV5Simulator – emulates a data logging stick on a local port.
+ *
+ * Answers V5 REQUEST frames from an in-memory register bank per Modbus
+ * slave ID, and can inject the failure modes seen on real loggers:
+ * Modbus exceptions, slow or missing replies, "no inverter reply" frames,
+ * double-CRC responses, unsolicited heartbeats and dropped connections.
+ * Intended for testing code built on SolarmanV5 without hardware.
+ */
+
+import net from "node:net";
+import { EventEmitter } from "node:events";
+import {
+  SolarmanV5,
+  ControlCode,
+  nullLogger,
+  createConsoleLogger,
+} from "./solarmanv5.js";
+import type { Logger } from "./solarmanv5.js";
+import { V5FrameAccumulator } from "./stream.js";
+import { addCrc, verifyCrc } from "./modbus.js";
+
+/** Largest register read (FC 3/4) allowed by the Modbus spec */
+const MAX_READ_REGISTERS = 125;
+/** Largest coil/discrete input read (FC 1/2) allowed by the Modbus spec */
+const MAX_READ_BITS = 2000;
+/** Function codes handled by `executePdu()` besides FC 43 */
+const REGISTER_FUNCTIONS = new Set([0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x0f, 0x10, 0x16, 0x17]);
+
+// ---------- Register bank ----------
+
+/** In-memory data model of one Modbus slave. Missing addresses read as 0 */
+export interface SimulatorRegisterBank {
+  holding: Map<number, number>;
+  input: Map<number, number>;
+  coils: Map<number, number>;
+  discreteInputs: Map<number, number>;
+}
+
+/** Initial register values, keyed by address */
+export interface SimulatorRegisterValues {
+  holding?: Record<number, number>;
+  input?: Record<number, number>;
+  coils?: Record<number, number>;
+  discreteInputs?: Record<number, number>;
+}
+
+// ---------- Faults ----------
+
+export type SimulatorFault =
+  /** Answer with a Modbus exception response */
+  | { type: "exception"; code: number }
+  /** Answer normally after a delay in milliseconds */
+  | { type: "delay"; ms: number }
+  /** Never answer the request */
+  | { type: "noReply" }
+  /** Answer with a V5 frame that carries no Modbus frame, as when the inverter is silent */
+  | { type: "noInverterReply"; frameStatus?: number }
+  /** Append a second CRC (0x0000) to the Modbus response */
+  | { type: "doubleCrc" }
+  /** Send an unsolicited HEARTBEAT frame just before the response */
+  | { type: "heartbeat" }
+  /** Close the connection instead of answering */
+  | { type: "drop" };
+
+// ---------- Options ----------
+
+export interface SolarmanV5SimulatorOptions {
+  /** Logger serial number the simulator answers to */
+  serial: number;
+  /** TCP port to listen on. Default: 8899 */
+  port?: number;
+  /** Address to bind to. Default: "127.0.0.1" */
+  host?: string;
+  /** Initial register values per slave ID */
+  registers?: Record<number, SimulatorRegisterValues>;
+  /** Answer reads of addresses never written with IllegalDataAddress. Default: false */
+  strict?: boolean;
+  /** Delay in milliseconds before every response. Default: 0 */
+  responseDelay?: number;
+  /** Device identification objects (FC 43 / MEI 14) by object ID */
+  deviceIdentification?: Record<number, string | Buffer>;
+  /** Function codes to answer with IllegalFunction, as on devices that lack them */
+  unsupportedFunctions?: number[];
+  /** Enable verbose/debug logging. Default: false */
+  verbose?: boolean;
+  /** Custom logger instance */
+  logger?: Logger;
+}
+
+// ---------- Events ----------
+
+/** A Modbus request received by the simulator */
+export interface SimulatorRequest {
+  slaveId: number;
+  functionCode: number;
+  /** Modbus RTU request frame */
+  frame: Buffer;
+  /** Fault applied to this request, if any */
+  fault: SimulatorFault | null;
+}
+
+export interface SolarmanV5SimulatorEvents {
+  listening: [address: net.AddressInfo];
+  connect: [remoteAddress: string];
+  disconnect: [remoteAddress: string];
+  request: [request: SimulatorRequest];
+  error: [err: Error];
+}
+
+/** Thrown inside request handling to produce a Modbus exception response */
+class ModbusExceptionResponse {
+  public readonly code: number;
+  constructor(code: number) {
+    this.code = code;
+  }
+}
+
+// ---------- Main class ----------
+
+export class SolarmanV5Simulator extends EventEmitter<SolarmanV5SimulatorEvents> {
+  public readonly serial: number;
+  public readonly port: number;
+  public readonly host: string;
+  public strict: boolean;
+  public responseDelay: number;
+
+  private log: Logger;
+  private server: net.Server | null = null;
+  private readonly sockets = new Set<net.Socket>();
+  private readonly banks = new Map<number, SimulatorRegisterBank>();
+  private readonly deviceObjects: Map<number, Buffer>;
+  private readonly unsupportedFunctions: Set<number>;
+  private readonly faults: { fault: SimulatorFault; remaining: number }[] = [];
+  private readonly v5Serial: Buffer;
+  private sequenceNumber = 0;
+
+  constructor(options: SolarmanV5SimulatorOptions) {
+    super();
+
+    this.serial = options.serial;
+    this.port = options.port ?? 8899;
+    this.host = options.host ?? "127.0.0.1";
+    this.strict = options.strict ?? false;
+    this.responseDelay = options.responseDelay ?? 0;
+
+    if (Number.isNaN(this.port)) {
+      throw new Error(`Invalid port: ${options.port}`);
+    }
+
+    if (options.logger) {
+      this.log = options.logger;
+    } else if (options.verbose) {
+      this.log = createConsoleLogger();
+    } else {
+      this.log = nullLogger;
+    }
+
+    this.v5Serial = Buffer.alloc(4);
+    this.v5Serial.writeUInt32LE(this.serial, 0);
+
+    this.unsupportedFunctions = new Set(options.unsupportedFunctions ?? []);
+    this.deviceObjects = new Map(
+      Object.entries(options.deviceIdentification ?? {}).map(([id, value]) => [
+        Number(id),
+        Buffer.isBuffer(value) ? value : Buffer.from(value, "latin1"),
+      ])
+    );
+
+    for (const [slaveId, values] of Object.entries(options.registers ?? {})) {
+      const bank = this.registers(Number(slaveId));
+      for (const table of ["holding", "input", "coils", "discreteInputs"] as const) {
+        for (const [address, value] of Object.entries(values[table] ?? {})) {
+          bank[table].set(Number(address), value);
+        }
+      }
+    }
+  }
+
+  /** Register bank of a slave, created empty on first use */
+  registers(slaveId = 1): SimulatorRegisterBank {
+    let bank = this.banks.get(slaveId);
+    if (!bank) {
+      bank = {
+        holding: new Map(),
+        input: new Map(),
+        coils: new Map(),
+        discreteInputs: new Map(),
+      };
+      this.banks.set(slaveId, bank);
+    }
+    return bank;
+  }
+
+  /** Number of connected clients */
+  get connections(): number {
+    return this.sockets.size;
+  }
+
+  /** Address the simulator is bound to, or null if not listening */
+  address(): net.AddressInfo | null {
+    const address = this.server?.address();
+    return address && typeof address === "object" ? address : null;
+  }
+
+  // ---------- Fault injection ----------
+
+  /**
+   * Apply a fault to the next `times` requests (default 1). Faults are
+   * applied in the order they were injected.
+   */
+  injectFault(fault: SimulatorFault, times = 1): void {
+    this.faults.push({ fault, remaining: times });
+  }
+
+  /** Remove all pending faults */
+  clearFaults(): void {
+    this.faults.length = 0;
+  }
+
+  /** Send an unsolicited HEARTBEAT frame to every connected client */
+  sendHeartbeat(): void {
+    for (const socket of this.sockets) {
+      socket.write(this.heartbeatFrame());
+    }
+  }
+
+  /** Drop every client connection */
+  dropConnections(): void {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+  }
+
+  // ---------- Lifecycle ----------
+
+  /** Start accepting connections */
+  async listen(): Promise<void> {
+    if (this.server) return;
+
+    return new Promise<void>((resolve, reject) => {
+      const server = net.createServer((socket) => this.handleConnection(socket));
+
+      const onError = (err: Error) => {
+        server.removeListener("listening", onListening);
+        reject(err);
+      };
+
+      const onListening = () => {
+        server.removeListener("error", onError);
+        server.on("error", (err) => this.emit("error", err));
+        this.server = server;
+        const address = this.address()!;
+        this.log.debug(`Simulator listening on ${address.address}:${address.port}`);
+        this.emit("listening", address);
+        resolve();
+      };
+
+      server.once("error", onError);
+      server.once("listening", onListening);
+      server.listen(this.port, this.host);
+    });
+  }
+
+  /** Stop listening and drop all connections */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    this.dropConnections();
+
+    return new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+
+  // ---------- Connection handling ----------
+
+  private handleConnection(socket: net.Socket): void {
+    const remoteAddress = `${socket.remoteAddress}:${socket.remotePort}`;
+    const accumulator = new V5FrameAccumulator({
+      onDiscard: (bytes) =>
+        this.log.debug(`[${remoteAddress}] V5_MISMATCH: ${bytes.toString("hex")}`),
+    });
+
+    this.sockets.add(socket);
+    this.log.debug(`Connection from ${remoteAddress}`);
+    this.emit("connect", remoteAddress);
+
+    socket.on("data", (data: Buffer) => {
+      for (const frame of accumulator.push(data)) {
+        this.handleFrame(socket, frame);
+      }
+    });
+
+    socket.on("close", () => {
+      this.sockets.delete(socket);
+      this.log.debug(`[${remoteAddress}] Connection closed`);
+      this.emit("disconnect", remoteAddress);
+    });
+
+    socket.on("error", (err: Error) => {
+      this.log.debug(`[${remoteAddress}] Socket error: ${err.message}`);
+    });
+  }
+
+  private handleFrame(socket: net.Socket, frame: Buffer): void {
+    this.log.debug(`[${this.serial}] RECD: ${frame.toString("hex")}`);
+    if (frame[4] !== ControlCode.REQUEST) return;
+    if (frame.readUInt32LE(7) !== this.serial) {
+      this.log.debug(`[${this.serial}] Ignoring frame for serial ${frame.readUInt32LE(7)}`);
+      return;
+    }
+
+    const mbRequest = frame.subarray(26, frame.length - 2);
+    if (mbRequest.length < 4 || !verifyCrc(mbRequest)) {
+      // An RTU slave stays silent on a corrupt frame
+      this.log.debug(`[${this.serial}] Invalid Modbus request, not answering`);
+      return;
+    }
+
+    const fault = this.nextFault();
+    this.emit("request", {
+      slaveId: mbRequest[0],
+      functionCode: mbRequest[1],
+      frame: mbRequest,
+      fault,
+    });
+
+    if (fault?.type === "noReply") return;
+    if (fault?.type === "drop") {
+      socket.destroy();
+      return;
+    }
+
+    let mbResponse: Buffer;
+    let frameStatus = 0x01;
+    if (fault?.type === "noInverterReply") {
+      mbResponse = Buffer.alloc(0);
+      frameStatus = fault.frameStatus ?? 0x01;
+    } else if (fault?.type === "exception") {
+      mbResponse = addCrc(Buffer.from([mbRequest[0], mbRequest[1] | 0x80, fault.code]));
+    } else {
+      mbResponse = this.handleModbusRequest(mbRequest);
+    }
+    if (fault?.type === "doubleCrc") {
+      mbResponse = addCrc(mbResponse);
+    }
+
+    const response = this.responseFrame(frame, frameStatus, mbResponse);
+    const delay = this.responseDelay + (fault?.type === "delay" ? fault.ms : 0);
+    const send = () => {
+      if (socket.destroyed) return;
+      if (fault?.type === "heartbeat") {
+        socket.write(this.heartbeatFrame());
+      }
+      this.log.debug(`[${this.serial}] SENT: ${response.toString("hex")}`);
+      socket.write(response);
+    };
+
+    if (delay > 0) {
+      setTimeout(send, delay);
+    } else {
+      send();
+    }
+  }
+
+  private nextFault(): SimulatorFault | null {
+    const next = this.faults[0];
+    if (!next) return null;
+    if (--next.remaining <= 0) {
+      this.faults.shift();
+    }
+    return next.fault;
+  }
+
+  // ---------- Modbus ----------
+
+  /** Execute a Modbus RTU request against the register bank */
+  private handleModbusRequest(request: Buffer): Buffer {
+    const slaveId = request[0];
+    const functionCode = request[1];
+    try {
+      const pdu = this.executePdu(this.registers(slaveId), request.subarray(1, request.length - 2));
+      return addCrc(Buffer.concat([Buffer.from([slaveId]), pdu]));
+    } catch (err) {
+      if (!(err instanceof ModbusExceptionResponse)) throw err;
+      return addCrc(Buffer.from([slaveId, functionCode | 0x80, err.code]));
+    }
+  }
+
+  private executePdu(bank: SimulatorRegisterBank, pdu: Buffer): Buffer {
+    const functionCode = pdu[0];
+    if (this.unsupportedFunctions.has(functionCode)) throw new ModbusExceptionResponse(0x01);
+    if (functionCode === 0x2b && pdu[1] === 0x0e) return this.readDeviceIdentification(pdu);
+    // The function code is checked before the length, as on a real device
+    if (!REGISTER_FUNCTIONS.has(functionCode)) throw new ModbusExceptionResponse(0x01);
+    if (pdu.length < 5) throw new ModbusExceptionResponse(0x03);
+    const address = pdu.readUInt16BE(1);
+    const quantity = pdu.readUInt16BE(3);
+
+    switch (functionCode) {
+      case 0x01:
+      case 0x02: {
+        if (quantity < 1 || quantity > MAX_READ_BITS) throw new ModbusExceptionResponse(0x03);
+        const table = functionCode === 0x01 ? bank.coils : bank.discreteInputs;
+        const bits = this.readTable(table, address, quantity);
+        const data = Buffer.alloc(Math.ceil(quantity / 8));
+        bits.forEach((bit, i) => {
+          if (bit) data[Math.floor(i / 8)] |= 1 << (i % 8);
+        });
+        return Buffer.concat([Buffer.from([functionCode, data.length]), data]);
+      }
+      case 0x03:
+      case 0x04: {
+        if (quantity < 1 || quantity > MAX_READ_REGISTERS) throw new ModbusExceptionResponse(0x03);
+        const table = functionCode === 0x03 ? bank.holding : bank.input;
+        const values = this.readTable(table, address, quantity);
+        const data = Buffer.alloc(quantity * 2);
+        values.forEach((value, i) => data.writeUInt16BE(value & 0xffff, i * 2));
+        return Buffer.concat([Buffer.from([functionCode, data.length]), data]);
+      }
+      case 0x05: {
+        // The value field holds the coil state; only 0xFF00 and 0x0000 are valid
+        if (quantity !== 0xff00 && quantity !== 0x0000) throw new ModbusExceptionResponse(0x03);
+        bank.coils.set(address, quantity === 0xff00 ? 1 : 0);
+        return Buffer.from(pdu.subarray(0, 5));
+      }
+      case 0x06:
+        bank.holding.set(address, quantity);
+        return Buffer.from(pdu.subarray(0, 5));
+      case 0x0f: {
+        const byteCount = pdu[5];
+        if (
+          quantity < 1 ||
+          quantity > 0x07b0 ||
+          byteCount !== Math.ceil(quantity / 8) ||
+          pdu.length < 6 + byteCount
+        ) {
+          throw new ModbusExceptionResponse(0x03);
+        }
+        for (let i = 0; i < quantity; i++) {
+          bank.coils.set(address + i, (pdu[6 + Math.floor(i / 8)] >> (i % 8)) & 1);
+        }
+        return Buffer.from(pdu.subarray(0, 5));
+      }
+      case 0x10: {
+        const byteCount = pdu[5];
+        if (
+          quantity < 1 ||
+          quantity > 0x7b ||
+          byteCount !== quantity * 2 ||
+          pdu.length < 6 + byteCount
+        ) {
+          throw new ModbusExceptionResponse(0x03);
+        }
+        for (let i = 0; i < quantity; i++) {
+          bank.holding.set(address + i, pdu.readUInt16BE(6 + i * 2));
+        }
+        return Buffer.from(pdu.subarray(0, 5));
+      }
+      case 0x16: {
+        if (pdu.length < 7) throw new ModbusExceptionResponse(0x03);
+        // The value field holds the AND mask here
+        const orMask = pdu.readUInt16BE(5);
+        const current = bank.holding.get(address) ?? 0;
+        bank.holding.set(address, (current & quantity) | (orMask & ~quantity & 0xffff));
+        return Buffer.from(pdu.subarray(0, 7));
+      }
+      case 0x17: {
+        if (pdu.length < 10) throw new ModbusExceptionResponse(0x03);
+        const writeAddress = pdu.readUInt16BE(5);
+        const writeQuantity = pdu.readUInt16BE(7);
+        const byteCount = pdu[9];
+        if (
+          quantity < 1 ||
+          quantity > 0x7d ||
+          writeQuantity < 1 ||
+          writeQuantity > 0x79 ||
+          byteCount !== writeQuantity * 2 ||
+          pdu.length < 10 + byteCount
+        ) {
+          throw new ModbusExceptionResponse(0x03);
+        }
+        for (let i = 0; i < writeQuantity; i++) {
+          bank.holding.set(writeAddress + i, pdu.readUInt16BE(10 + i * 2));
+        }
+        const values = this.readTable(bank.holding, address, quantity);
+        const data = Buffer.alloc(quantity * 2);
+        values.forEach((value, i) => data.writeUInt16BE(value & 0xffff, i * 2));
+        return Buffer.concat([Buffer.from([functionCode, data.length]), data]);
+      }
+      default:
+        throw new ModbusExceptionResponse(0x01);
+    }
+  }
+
+  /** FC 43 / MEI 14, streaming objects while they fit in one PDU */
+  private readDeviceIdentification(pdu: Buffer): Buffer {
+    const code = pdu[2];
+    const objectId = pdu[3];
+    if (pdu.length < 4 || code < 0x01 || code > 0x04 || this.deviceObjects.size === 0) {
+      throw new ModbusExceptionResponse(code >= 0x01 && code <= 0x04 ? 0x02 : 0x03);
+    }
+
+    const ids = [...this.deviceObjects.keys()].sort((a, b) => a - b);
+    const level = ids.some((id) => id >= 0x80) ? 0x03 : ids.some((id) => id > 0x02) ? 0x02 : 0x01;
+    const header = [0x2b, 0x0e, code, 0x80 | level];
+
+    if (code === 0x04) {
+      const value = this.deviceObjects.get(objectId);
+      if (!value) throw new ModbusExceptionResponse(0x02);
+      return Buffer.concat([
+        Buffer.from([...header, 0x00, 0x00, 0x01, objectId, value.length]),
+        value,
+      ]);
+    }
+
+    const last = code === 0x01 ? 0x02 : code === 0x02 ? 0x7f : 0xff;
+    const wanted = ids.filter((id) => id <= last);
+    // An unknown start object restarts the stream at the first object
+    const start = this.deviceObjects.has(objectId) ? objectId : 0;
+    const objects: Buffer[] = [];
+    let size = header.length + 3;
+    let nextObjectId = 0;
+    for (const id of wanted.filter((id) => id >= start)) {
+      const value = this.deviceObjects.get(id)!;
+      if (size + 2 + value.length > 253) {
+        nextObjectId = id;
+        break;
+      }
+      objects.push(Buffer.from([id, value.length]), value);
+      size += 2 + value.length;
+    }
+
+    const moreFollows = nextObjectId !== 0 ? 0xff : 0x00;
+    return Buffer.concat([
+      Buffer.from([...header, moreFollows, nextObjectId, objects.length / 2]),
+      ...objects,
+    ]);
+  }
+
+  private readTable(table: Map<number, number>, address: number, quantity: number): number[] {
+    if (address + quantity > 0x10000) throw new ModbusExceptionResponse(0x02);
+    const values: number[] = [];
+    for (let i = 0; i < quantity; i++) {
+      const value = table.get(address + i);
+      if (value === undefined && this.strict) throw new ModbusExceptionResponse(0x02);
+      values.push(value ?? 0);
+    }
+    return values;
+  }
+
+  // ---------- V5 frames ----------
+
+  /** Build a V5 frame from this logger */
+  private v5Frame(control: number, seq: Buffer, payload: Buffer): Buffer {
+    const frame = Buffer.alloc(13 + payload.length);
+    frame[0] = 0xa5;
+    frame.writeUInt16LE(payload.length, 1);
+    frame[3] = 0x10;
+    frame[4] = control;
+    seq.copy(frame, 5, 0, 2);
+    this.v5Serial.copy(frame, 7);
+    payload.copy(frame, 11);
+    frame[frame.length - 2] = SolarmanV5.calculateV5FrameChecksum(frame);
+    frame[frame.length - 1] = 0x15;
+    return frame;
+  }
+
+  /** Build the V5 response to a REQUEST frame */
+  private responseFrame(request: Buffer, frameStatus: number, mbResponse: Buffer): Buffer {
+    const payload = Buffer.alloc(14 + mbResponse.length);
+    payload[0] = 0x02; // frame type (inverter)
+    payload[1] = frameStatus;
+    payload.writeUInt32LE(Math.floor(process.uptime()), 2); // total working time
+    payload.writeUInt32LE(Math.floor(process.uptime()), 6); // power on time
+    payload.writeUInt32LE(Math.floor(Date.now() / 1000), 10); // offset time
+    mbResponse.copy(payload, 14);
+
+    const seq = Buffer.from([request[5], this.nextSequenceNumber()]);
+    return this.v5Frame(request[4] - 0x30, seq, payload);
+  }
+
+  private heartbeatFrame(): Buffer {
+    const seq = Buffer.from([this.nextSequenceNumber(), 0x00]);
+    return this.v5Frame(ControlCode.HEARTBEAT, seq, Buffer.from([0x00]));
+  }
+
+  private nextSequenceNumber(): number {
+    this.sequenceNumber = (this.sequenceNumber + 1) & 0xff;
+    return this.sequenceNumber;
+  }
+}
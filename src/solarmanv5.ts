@@ -8,9 +8,27 @@
  * promise-based (no separate sync/async split like the Python version).
  */
 
-import net from "node:net";
 import { EventEmitter } from "node:events";
 import * as modbus from "./modbus.js";
+import { parseDataFrame, parseInfoFrame } from "./payloads.js";
+import { V5FrameAccumulator } from "./stream.js";
+import { CaptureRecorder } from "./capture.js";
+import type { CaptureDirection } from "./capture.js";
+import { TcpTransport } from "./transport.js";
+import type { Transport } from "./transport.js";
+import {
+  decodeRegisterMap,
+  formatRegisters,
+  registerMapBlocks,
+  twosComplement,
+} from "./registermap.js";
+import type {
+  RegisterMap,
+  RegisterMapResult,
+  RegisterTable,
+} from "./registermap.js";
+import { planReads } from "./planner.js";
+import type { ReadPlanOptions } from "./planner.js";
 
 // ---------- Constants ----------
 
@@ -23,7 +41,7 @@ export const ControlCode = {
   REPORT: 0x48,
 } as const;
 
-type ControlCodeValue = (typeof ControlCode)[keyof typeof ControlCode];
+export type ControlCodeValue = (typeof ControlCode)[keyof typeof ControlCode];
 
 const CONTROL_CODE_VALUES = new Set<number>(Object.values(ControlCode));
 
@@ -39,6 +57,66 @@ export class V5FrameError extends Error {
   }
 }
 
+/** The V5 checksum of a received frame is wrong */
+export class V5ChecksumError extends V5FrameError {
+  public readonly expected: number;
+  public readonly actual: number;
+  constructor(expected: number, actual: number) {
+    super("V5 frame contains invalid V5 checksum");
+    this.name = "V5ChecksumError";
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/** A response carries a different sequence number than the request */
+export class V5SequenceError extends V5FrameError {
+  public readonly expected: number | null;
+  public readonly actual: number;
+  constructor(expected: number | null, actual: number) {
+    super("V5 frame contains invalid sequence number");
+    this.name = "V5SequenceError";
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/** A response comes from a data logger with a different serial number */
+export class V5SerialMismatchError extends V5FrameError {
+  public readonly expected: number;
+  public readonly actual: number;
+  constructor(expected: number, actual: number) {
+    super("V5 frame contains incorrect data logger serial number");
+    this.name = "V5SerialMismatchError";
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * The logger answered, but without a Modbus response from the inverter:
+ * the V5 frame status is not 1 or the Modbus frame is empty
+ */
+export class LoggerNoResponseError extends V5FrameError {
+  public readonly frameStatus: number;
+  constructor(frameStatus: number) {
+    super(`Logger received no Modbus response from the inverter (frame status ${frameStatus})`);
+    this.name = "LoggerNoResponseError";
+    this.frameStatus = frameStatus;
+  }
+}
+
+/** No response arrived within the request timeout */
+export class TimeoutError extends Error {
+  /** Timeout in seconds */
+  public readonly timeout: number;
+  constructor(timeout: number) {
+    super("Timeout waiting for response");
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
 export class NoSocketAvailableError extends Error {
   constructor(message: string) {
     super(message);
@@ -46,6 +124,13 @@ export class NoSocketAvailableError extends Error {
   }
 }
 
+export class RequestCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RequestCancelledError";
+  }
+}
+
 // ---------- Logger interface ----------
 
 export interface Logger {
@@ -55,14 +140,14 @@ export interface Logger {
   error(message: string, ...args: unknown[]): void;
 }
 
-const nullLogger: Logger = {
+export const nullLogger: Logger = {
   debug() {},
   info() {},
   warn() {},
   error() {},
 };
 
-function createConsoleLogger(): Logger {
+export function createConsoleLogger(): Logger {
   return {
     debug: (...args: unknown[]) => console.debug("[solarmanv5]", ...args),
     info: (...args: unknown[]) => console.info("[solarmanv5]", ...args),
@@ -88,6 +173,42 @@ export interface SolarmanV5Options {
   logger?: Logger;
   /** Enable auto-reconnect on connection loss. Default: false */
   autoReconnect?: boolean;
+  /**
+   * Send FC 22 and FC 23 natively instead of emulating them with separate
+   * reads and writes. Falls back to emulation if the device answers
+   * IllegalFunction. Default: false
+   */
+  nativeFunctions?: boolean;
+  /**
+   * Resend a request this many times when the logger answers without an
+   * inverter response (LoggerNoResponseError). Default: 0
+   */
+  noResponseRetries?: number;
+  /** Append every sent and received V5 frame to this JSONL capture file */
+  record?: string;
+  /** Transport to talk to the logger over. Default: TCP to address:port */
+  transport?: Transport;
+}
+
+// ---------- Request options ----------
+
+export interface RequestOptions {
+  /** Response timeout in seconds for this request. Default: socketTimeout */
+  timeout?: number;
+  /** Cancel the request, whether it is still queued or already sent */
+  signal?: AbortSignal;
+}
+
+/** A Modbus request waiting in (or at the head of) the request queue */
+interface QueuedRequest {
+  mbRequestFrame: Buffer;
+  timeout: number;
+  signal?: AbortSignal;
+  resolve: (mbResponseFrame: Buffer) => void;
+  reject: (err: Error) => void;
+  retriesLeft: number;
+  timer: NodeJS.Timeout | null;
+  onAbort: (() => void) | null;
 }
 
 // ---------- Format options ----------
@@ -113,17 +234,25 @@ export class SolarmanV5 extends EventEmitter {
   public readonly socketTimeout: number;
   public readonly v5ErrorCorrection: boolean;
   public readonly autoReconnect: boolean;
+  public readonly nativeFunctions: boolean;
+  public readonly noResponseRetries: number;
 
   private log: Logger;
   private sequenceNumber: number | null = null;
-  private socket: net.Socket | null = null;
+  private readonly transport: Transport;
+  private detachTransport: (() => void) | null = null;
   private connected = false;
+  private reconnecting: Promise<void> | null = null;
   private lastFrame: Buffer = Buffer.alloc(0);
+  // Function codes the device rejected with IllegalFunction
+  private readonly unsupportedFunctions = new Set<number>();
+  // LoggerNoResponseErrors per Modbus slave ID
+  private readonly noResponses = new Map<number, number>();
+  private readonly recorder: CaptureRecorder | null;
 
-  // Deferred promise for waiting on data
-  private dataResolve: ((data: Buffer) => void) | null = null;
-  private dataReject: ((err: Error) => void) | null = null;
-  private dataWanted = false;
+  // Requests are sent one at a time; the logger answers them in order
+  private requestQueue: QueuedRequest[] = [];
+  private activeRequest: QueuedRequest | null = null;
 
   // V5 frame constant parts
   private readonly v5Serial: Buffer;
@@ -143,6 +272,8 @@ export class SolarmanV5 extends EventEmitter {
     this.socketTimeout = options.socketTimeout ?? 60;
     this.v5ErrorCorrection = options.v5ErrorCorrection ?? false;
     this.autoReconnect = options.autoReconnect ?? false;
+    this.nativeFunctions = options.nativeFunctions ?? false;
+    this.noResponseRetries = options.noResponseRetries ?? 0;
 
     if (Number.isNaN(this.port)) {
       throw new Error(`Invalid port: ${options.port}`);
@@ -153,6 +284,9 @@ export class SolarmanV5 extends EventEmitter {
     if (Number.isNaN(this.socketTimeout)) {
       throw new Error(`Invalid socketTimeout: ${options.socketTimeout}`);
     }
+    if (!Number.isInteger(this.noResponseRetries) || this.noResponseRetries < 0) {
+      throw new Error(`Invalid noResponseRetries: ${options.noResponseRetries}`);
+    }
 
     if (options.logger) {
       this.log = options.logger;
@@ -162,6 +296,15 @@ export class SolarmanV5 extends EventEmitter {
       this.log = nullLogger;
     }
 
+    this.recorder = options.record
+      ? new CaptureRecorder(options.record, (err) =>
+          this.log.error(`Capture stopped, cannot write ${options.record}: ${err.message}`)
+        )
+      : null;
+    this.transport =
+      options.transport ??
+      new TcpTransport({ host: address, port: this.port, timeout: this.socketTimeout });
+
     // Encode serial as 4-byte little-endian
     this.v5Serial = Buffer.alloc(4);
     this.v5Serial.writeUInt32LE(this.serial, 0);
@@ -198,26 +341,41 @@ export class SolarmanV5 extends EventEmitter {
     return this.sequenceNumber;
   }
 
-  /** Construct V5 header */
-  private v5Header(length: number, control: number, seq: Buffer): Buffer {
+  /** Construct V5 header for the given logger serial (4-byte LE) */
+  private static buildV5Header(
+    length: number,
+    control: number,
+    seq: Buffer,
+    serial: Buffer
+  ): Buffer {
     const header = Buffer.alloc(11);
     header[0] = V5_START;
     header.writeUInt16LE(length, 1);
     header[3] = 0x10; // control code suffix
     header[4] = control;
     seq.copy(header, 5, 0, 2);
-    this.v5Serial.copy(header, 7);
+    serial.copy(header, 7, 0, 4);
     return header;
   }
 
   /** Construct V5 trailer (checksum + end byte) */
-  private v5Trailer(data: Buffer): Buffer {
+  private static buildV5Trailer(data: Buffer): Buffer {
     const trailer = Buffer.alloc(2);
     trailer[0] = SolarmanV5.calculateChecksum(data.subarray(1));
     trailer[1] = V5_END;
     return trailer;
   }
 
+  /** Construct V5 header */
+  private v5Header(length: number, control: number, seq: Buffer): Buffer {
+    return SolarmanV5.buildV5Header(length, control, seq, this.v5Serial);
+  }
+
+  /** Construct V5 trailer (checksum + end byte) */
+  private v5Trailer(data: Buffer): Buffer {
+    return SolarmanV5.buildV5Trailer(data);
+  }
+
   /** Encode a Modbus RTU frame inside a V5 data logging stick frame */
   private v5FrameEncoder(modbusFrame: Buffer): Buffer {
     const length = 15 + modbusFrame.length;
@@ -256,21 +414,15 @@ export class SolarmanV5 extends EventEmitter {
     if (v5Frame[0] !== V5_START || v5Frame[v5Frame.length - 1] !== V5_END) {
       throw new V5FrameError("V5 frame contains invalid start or end values");
     }
-    if (v5Frame[v5Frame.length - 2] !== SolarmanV5.calculateV5FrameChecksum(v5Frame)) {
-      throw new V5FrameError("V5 frame contains invalid V5 checksum");
+    const checksum = SolarmanV5.calculateV5FrameChecksum(v5Frame);
+    if (v5Frame[v5Frame.length - 2] !== checksum) {
+      throw new V5ChecksumError(checksum, v5Frame[v5Frame.length - 2]);
     }
     if (v5Frame[5] !== this.sequenceNumber) {
-      throw new V5FrameError("V5 frame contains invalid sequence number");
+      throw new V5SequenceError(this.sequenceNumber, v5Frame[5]);
     }
-    if (
-      v5Frame[7] !== this.v5Serial[0] ||
-      v5Frame[8] !== this.v5Serial[1] ||
-      v5Frame[9] !== this.v5Serial[2] ||
-      v5Frame[10] !== this.v5Serial[3]
-    ) {
-      throw new V5FrameError(
-        "V5 frame contains incorrect data logger serial number"
-      );
+    if (!v5Frame.subarray(7, 11).equals(this.v5Serial)) {
+      throw new V5SerialMismatchError(this.serial, v5Frame.readUInt32LE(7));
     }
     if (v5Frame[4] !== SolarmanV5.getResponseCode(ControlCode.REQUEST)) {
       throw new V5FrameError("V5 frame contains incorrect control code");
@@ -279,29 +431,37 @@ export class SolarmanV5 extends EventEmitter {
       throw new V5FrameError("V5 frame contains invalid frametype");
     }
 
+    const frameStatus = v5Frame[12];
     const modbusFrame = v5Frame.subarray(25, v5Frame.length - 2);
 
+    if (frameStatus !== 0x01 || modbusFrame.length === 0) {
+      throw new LoggerNoResponseError(frameStatus);
+    }
+
+    // The shortest valid response is an exception: slave, FC | 0x80, code, CRC
     if (modbusFrame.length < 5) {
-      if (modbusFrame.length > 0) {
-        const exName =
-          modbus.MODBUS_EXCEPTION_NAMES[modbusFrame[0]];
-        if (exName) {
-          throw new V5FrameError(`V5 Modbus EXCEPTION: ${exName}`);
-        }
-      }
       throw new V5FrameError(
-        "V5 frame does not contain a valid Modbus RTU frame"
+        `V5 frame does not contain a valid Modbus RTU frame (${modbusFrame.length} bytes)`
       );
     }
 
     return modbusFrame;
   }
 
-  /** Create time response frame for keepalive/handshake/heartbeat etc. */
-  private v5TimeResponseFrame(frame: Buffer): Buffer {
+  /**
+   * Create a time response frame for a logger-initiated frame
+   * (handshake/data/info/heartbeat/report).
+   *
+   * @param frame   The received V5 frame
+   * @param serial  Logger serial (4-byte LE). Default: serial of `frame`
+   */
+  static timeResponseFrame(
+    frame: Buffer,
+    serial: Buffer = frame.subarray(7, 11)
+  ): Buffer {
     const responseCode = SolarmanV5.getResponseCode(frame[4]);
     const seq = frame.subarray(5, 7);
-    const header = this.v5Header(10, responseCode, seq);
+    const header = SolarmanV5.buildV5Header(10, responseCode, seq, serial);
 
     const payload = Buffer.alloc(10);
     payload.writeUInt16LE(0x0100, 0); // frame & sensor type
@@ -312,10 +472,21 @@ export class SolarmanV5 extends EventEmitter {
     // Increment seq byte
     responseFrame[5] = (responseFrame[5] + 1) & 0xff;
 
-    return Buffer.concat([responseFrame, this.v5Trailer(responseFrame)]);
+    return Buffer.concat([
+      responseFrame,
+      SolarmanV5.buildV5Trailer(responseFrame),
+    ]);
   }
 
-  /** Validate received frame */
+  /** Create time response frame for keepalive/handshake/heartbeat etc. */
+  private v5TimeResponseFrame(frame: Buffer): Buffer {
+    return SolarmanV5.timeResponseFrame(frame, this.v5Serial);
+  }
+
+  /**
+   * Validate received frame. Logger-initiated frames carry the logger's own
+   * sequence number, so only responses are checked against ours.
+   */
   private receivedFrameIsValid(frame: Buffer): boolean {
     if (frame[0] !== V5_START) {
       this.log.debug(
@@ -323,7 +494,10 @@ export class SolarmanV5 extends EventEmitter {
       );
       return false;
     }
-    if (frame[5] !== this.sequenceNumber) {
+    if (
+      frame[4] === SolarmanV5.getResponseCode(ControlCode.REQUEST) &&
+      frame[5] !== this.sequenceNumber
+    ) {
       this.log.debug(
         `[${this.serial}] V5_SEQ_NO_MISMATCH: ${frame.toString("hex")}`
       );
@@ -353,168 +527,185 @@ export class SolarmanV5 extends EventEmitter {
       this.log.debug(
         `[${this.serial}] V5_${controlName} RESP: ${responseFrame.toString("hex")}`
       );
+      if (frame[4] === ControlCode.DATA) {
+        this.emitDataFrame(frame);
+      } else if (frame[4] === ControlCode.INFO) {
+        this.emitInfoFrame(frame);
+      }
       return [false, responseFrame];
     }
     return [true, null];
   }
 
-  /** Handle protocol frames, send response if needed */
-  private handleProtocolFrame(frame: Buffer): boolean {
-    const [doContinue, responseFrame] = this.receivedFrameResponse(frame);
-    if (responseFrame !== null && this.socket && !this.socket.destroyed) {
-      this.socket.write(responseFrame);
+  /** Emit the register blocks of a pushed DATA frame as a `data` event */
+  private emitDataFrame(frame: Buffer): void {
+    try {
+      this.emit("data", parseDataFrame(frame));
+    } catch (err) {
+      this.log.debug(
+        `[${this.serial}] V5_DATA not decoded: ${(err as Error).message}`
+      );
     }
-    return doContinue;
   }
 
-  /**
-   * Strip extra zeroes in case the frame has double CRC applied.
-   * See https://github.com/jmccrohan/pysolarmanv5/issues/62
-   */
-  private handleDoubleCrc(frame: Buffer): Buffer {
-    const zeroes = Buffer.from([0x00, 0x00]);
-    if (frame.length < 4) return frame;
-    if (
-      frame[frame.length - 1] !== 0x00 ||
-      frame[frame.length - 2] !== 0x00
-    ) {
-      return frame;
+  /** Emit the logger metadata of a pushed INFO frame as an `info` event */
+  private emitInfoFrame(frame: Buffer): void {
+    try {
+      this.emit("info", parseInfoFrame(frame));
+    } catch (err) {
+      this.log.debug(
+        `[${this.serial}] V5_INFO not decoded: ${(err as Error).message}`
+      );
     }
-    const stripped = frame.subarray(0, frame.length - 2);
-    const strippedPayload = stripped.subarray(0, stripped.length - 2);
-    const strippedCrc = stripped.subarray(stripped.length - 2);
-    const computedCrc = modbus.getCrc(strippedPayload);
-    if (computedCrc[0] === strippedCrc[0] && computedCrc[1] === strippedCrc[1]) {
-      return stripped;
+  }
+
+  /** Handle protocol frames, send response if needed */
+  private handleProtocolFrame(frame: Buffer): boolean {
+    const [doContinue, responseFrame] = this.receivedFrameResponse(frame);
+    if (responseFrame !== null && this.transport.isOpen) {
+      this.writeFrame(responseFrame);
     }
-    return frame;
+    return doContinue;
   }
 
   // ---------- Connection management ----------
 
+  /** Whether the connection to the data logging stick is open */
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
   /** Connect to the data logging stick */
   async connect(): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const socket = new net.Socket();
-      socket.setTimeout(this.socketTimeout * 1000);
-
-      const onError = (err: Error) => {
-        cleanup();
-        reject(new NoSocketAvailableError(`Cannot open connection to ${this.address}: ${err.message}`));
-      };
-
-      const onConnect = () => {
-        cleanup();
-        this.socket = socket;
-        this.connected = true;
-        this.setupSocketListeners();
-        this.log.debug(`Connected to ${this.address}:${this.port}`);
-        resolve();
-      };
+    try {
+      await this.transport.connect();
+    } catch (err) {
+      throw new NoSocketAvailableError(
+        `Cannot open connection to ${this.address}: ${(err as Error).message}`
+      );
+    }
+    this.connected = true;
+    this.setupTransportListeners();
+    this.log.debug(`Connected to ${this.address}:${this.port}`);
+  }
 
-      const cleanup = () => {
-        socket.removeListener("error", onError);
-        socket.removeListener("connect", onConnect);
-      };
+  /** Set up event listeners on the connected transport */
+  private setupTransportListeners(): void {
+    this.detachTransport?.();
 
-      socket.once("error", onError);
-      socket.once("connect", onConnect);
-      socket.connect(this.port, this.address);
+    // Responses may be split across or coalesced within 'data' events
+    const accumulator = new V5FrameAccumulator({
+      onDiscard: (bytes) =>
+        this.log.debug(
+          `[${this.serial}] V5_MISMATCH: ${bytes.toString("hex")}`
+        ),
     });
-  }
-
-  /** Set up event listeners on the connected socket */
-  private setupSocketListeners(): void {
-    if (!this.socket) return;
 
-    this.socket.on("data", (data: Buffer) => {
+    const onData = (data: Buffer) => {
       this.log.debug(`[${this.serial}] RAW RECD: ${data.toString("hex")}`);
-
-      if (!this.receivedFrameIsValid(data)) {
-        return;
-      }
-
-      if (!this.handleProtocolFrame(data)) {
-        return;
+      for (const frame of accumulator.push(data)) {
+        this.handleReceivedFrame(frame);
       }
+    };
 
-      if (this.dataWanted && this.dataResolve) {
-        this.dataWanted = false;
-        this.dataResolve(data);
-        this.dataResolve = null;
-        this.dataReject = null;
-      } else {
-        this.log.debug(
-          `[DISCARDED] RECD: ${data.toString("hex")}`
-        );
-      }
-    });
-
-    this.socket.on("close", () => {
+    const onClose = () => {
       this.log.debug("Socket closed");
+      this.detachTransport?.();
       this.connected = false;
 
-      if (this.dataWanted && this.dataReject) {
-        if (this.autoReconnect) {
-          // Try to reconnect and resend
-          this.reconnect()
-            .then(() => {
-              if (this.socket && this.lastFrame.length > 0) {
-                this.log.debug("Data expected. Retrying last request after reconnect.");
-                this.socket.write(this.lastFrame);
-              }
-            })
-            .catch((err) => {
-              if (this.dataReject) {
-                this.dataReject(
-                  new NoSocketAvailableError("Connection closed on read")
-                );
-                this.dataResolve = null;
-                this.dataReject = null;
-              }
-            });
-        } else {
-          this.dataReject(
-            new NoSocketAvailableError("Connection closed on read")
-          );
-          this.dataResolve = null;
-          this.dataReject = null;
-        }
-      } else if (this.autoReconnect) {
-        this.reconnect().catch((err) => {
-          this.log.debug(`Auto-reconnect failed: ${err.message}`);
-        });
+      if (this.autoReconnect) {
+        // Try to reconnect and resend
+        this.reconnect()
+          .then(() => {
+            if (this.activeRequest && this.transport.isOpen && this.lastFrame.length > 0) {
+              this.log.debug("Data expected. Retrying last request after reconnect.");
+              this.writeFrame(this.lastFrame);
+            } else {
+              this.dispatchNextRequest();
+            }
+          })
+          .catch((err) => {
+            this.log.debug(`Auto-reconnect failed: ${err.message}`);
+            this.rejectAllRequests(
+              new NoSocketAvailableError("Connection closed on read")
+            );
+          });
+      } else {
+        this.rejectAllRequests(
+          new NoSocketAvailableError("Connection closed on read")
+        );
       }
-    });
+    };
 
-    this.socket.on("error", (err: Error) => {
+    const onError = (err: Error) => {
       this.log.debug(`Socket error: ${err.message}`);
-      if (this.dataWanted && this.dataReject) {
-        this.dataReject(err);
-        this.dataResolve = null;
-        this.dataReject = null;
-        this.dataWanted = false;
+      if (this.activeRequest) {
+        this.failActiveRequest(err);
       }
-    });
+    };
+
+    this.transport.on("data", onData);
+    this.transport.on("close", onClose);
+    this.transport.on("error", onError);
+    this.detachTransport = () => {
+      this.transport.removeListener("data", onData);
+      this.transport.removeListener("close", onClose);
+      this.transport.removeListener("error", onError);
+      this.detachTransport = null;
+    };
+  }
 
-    this.socket.on("timeout", () => {
-      this.log.debug("Socket timeout");
-      this.socket?.destroy();
-    });
+  /** Write a V5 frame to the transport, recording it if a capture is active */
+  private writeFrame(frame: Buffer): void {
+    this.recordFrame("sent", frame);
+    this.transport.write(frame);
+  }
+
+  private recordFrame(direction: CaptureDirection, frame: Buffer): void {
+    if (!this.recorder) return;
+    try {
+      this.recorder.record(direction, frame);
+    } catch (err) {
+      this.log.debug(`Capture not written: ${(err as Error).message}`);
+    }
+  }
+
+  /** Handle one complete V5 frame received from the data logging stick */
+  private handleReceivedFrame(frame: Buffer): void {
+    this.recordFrame("received", frame);
+    if (!this.receivedFrameIsValid(frame)) {
+      return;
+    }
+
+    if (!this.handleProtocolFrame(frame)) {
+      return;
+    }
+
+    if (this.activeRequest) {
+      this.completeActiveRequest(frame);
+    } else {
+      this.log.debug(
+        `[DISCARDED] RECD: ${frame.toString("hex")}`
+      );
+    }
   }
 
   /** Reconnect to the data logging stick */
   async reconnect(): Promise<void> {
-    this.log.debug("Attempting reconnect...");
-    try {
-      if (this.socket) {
-        this.socket.removeAllListeners();
-        this.socket.destroy();
-        this.socket = null;
-      }
-    } catch {
-      // ignore cleanup errors
+    // Callers racing to reconnect share a single attempt
+    if (!this.reconnecting) {
+      this.reconnecting = this.doReconnect().finally(() => {
+        this.reconnecting = null;
+      });
     }
+    return this.reconnecting;
+  }
+
+  private async doReconnect(): Promise<void> {
+    this.log.debug("Attempting reconnect...");
+    this.detachTransport?.();
+    this.transport.destroy();
+    this.connected = false;
 
     try {
       await this.connect();
@@ -527,105 +718,219 @@ export class SolarmanV5 extends EventEmitter {
 
   /** Disconnect from the data logging stick */
   async disconnect(): Promise<void> {
-    this.dataWanted = false;
-    return new Promise<void>((resolve) => {
-      if (!this.socket) {
-        resolve();
-        return;
-      }
+    this.rejectAllRequests(new RequestCancelledError("Client disconnected"));
+    this.detachTransport?.();
+    try {
+      await this.transport.close();
+    } catch {
+      // ignore close errors
+    }
+    this.connected = false;
+    await this.recorder?.close();
+  }
 
-      this.socket.removeAllListeners();
+  // ---------- Frame send/receive ----------
 
-      const onClose = () => {
-        this.socket = null;
-        this.connected = false;
-        resolve();
-      };
+  /** Number of requests waiting for a response, including the one in flight */
+  get pendingRequests(): number {
+    return this.requestQueue.length + (this.activeRequest ? 1 : 0);
+  }
 
-      this.socket.once("close", onClose);
+  /**
+   * Number of responses per Modbus slave ID in which the logger reported
+   * that the inverter did not answer, including retried ones
+   */
+  get noResponseCounts(): ReadonlyMap<number, number> {
+    return this.noResponses;
+  }
 
-      try {
-        this.socket.end();
-        // If end doesn't trigger close fast enough, force destroy
-        setTimeout(() => {
-          if (this.socket) {
-            this.socket.destroy();
-            this.socket = null;
-            this.connected = false;
+  /**
+   * Reject every queued and in-flight request with a RequestCancelledError.
+   * The connection stays open.
+   */
+  cancelPendingRequests(reason = "Request cancelled"): void {
+    this.rejectAllRequests(new RequestCancelledError(reason));
+  }
+
+  /**
+   * Queue a Modbus RTU frame to be encoded, sent and decoded. Requests are
+   * sent one at a time in FIFO order, so concurrent callers never see each
+   * other's responses.
+   */
+  private sendReceiveModbusFrame(
+    mbRequestFrame: Buffer,
+    options: RequestOptions = {}
+  ): Promise<Buffer> {
+    if (!this.transport.isOpen) {
+      return Promise.reject(
+        new NoSocketAvailableError("Connection already closed.")
+      );
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(new RequestCancelledError("Request cancelled"));
+    }
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const request: QueuedRequest = {
+        mbRequestFrame,
+        timeout: (options.timeout ?? this.socketTimeout) * 1000,
+        signal: options.signal,
+        resolve,
+        reject,
+        retriesLeft: this.noResponseRetries,
+        timer: null,
+        onAbort: null,
+      };
+
+      if (options.signal) {
+        request.onAbort = () => {
+          if (this.activeRequest === request) {
+            this.failActiveRequest(new RequestCancelledError("Request cancelled"));
+          } else {
+            this.requestQueue = this.requestQueue.filter((r) => r !== request);
+            this.settleRequest(request);
+            reject(new RequestCancelledError("Request cancelled"));
           }
-          resolve();
-        }, 500);
-      } catch {
-        this.socket = null;
-        this.connected = false;
-        resolve();
+        };
+        options.signal.addEventListener("abort", request.onAbort, { once: true });
       }
+
+      this.requestQueue.push(request);
+      this.dispatchNextRequest();
     });
   }
 
-  // ---------- Frame send/receive ----------
+  /** Send the request at the head of the queue if nothing is in flight */
+  private dispatchNextRequest(): void {
+    if (this.activeRequest || this.requestQueue.length === 0) return;
+
+    if (!this.transport.isOpen) {
+      if (!this.autoReconnect) {
+        this.rejectAllRequests(
+          new NoSocketAvailableError("Connection already closed.")
+        );
+      }
+      return;
+    }
+
+    const request = this.requestQueue.shift()!;
+    this.activeRequest = request;
+
+    const frame = this.v5FrameEncoder(request.mbRequestFrame);
+    this.lastFrame = frame;
+    request.timer = setTimeout(() => {
+      this.failActiveRequest(new TimeoutError(request.timeout / 1000));
+    }, request.timeout);
 
-  /** Send frame to the data logger and receive response */
-  private async sendReceiveFrame(frame: Buffer): Promise<Buffer> {
     this.log.debug(`[${this.serial}] SENT: ${frame.toString("hex")}`);
+    this.writeFrame(frame);
+  }
+
+  /**
+   * Decode the response to the in-flight request and move on to the next
+   * one. Decoding happens before the next request is sent, while the
+   * sequence number still belongs to this request.
+   */
+  private completeActiveRequest(v5ResponseFrame: Buffer): void {
+    const request = this.activeRequest!;
+    this.activeRequest = null;
 
-    if (!this.socket || this.socket.destroyed) {
-      throw new NoSocketAvailableError("Connection already closed.");
+    try {
+      const mbResponseFrame = this.v5FrameDecoder(v5ResponseFrame);
+      this.settleRequest(request);
+      request.resolve(mbResponseFrame);
+    } catch (err) {
+      if (err instanceof LoggerNoResponseError && this.retryNoResponse(request, err)) {
+        return;
+      }
+      this.settleRequest(request);
+      request.reject(err as Error);
     }
+    this.dispatchNextRequest();
+  }
 
-    this.lastFrame = frame;
-    this.dataWanted = true;
+  /**
+   * Count a response without inverter reply and put the request back at
+   * the head of the queue if it has retries left
+   */
+  private retryNoResponse(request: QueuedRequest, err: LoggerNoResponseError): boolean {
+    const slaveId = request.mbRequestFrame[0];
+    this.noResponses.set(slaveId, (this.noResponses.get(slaveId) ?? 0) + 1);
+    this.emit("noResponse", slaveId, err.frameStatus);
+
+    if (request.retriesLeft === 0) return false;
+    request.retriesLeft--;
+    this.log.debug(
+      `[${this.serial}] No response from slave ${slaveId} ` +
+        `(frame status ${err.frameStatus}), retrying`
+    );
+    if (request.timer) clearTimeout(request.timer);
+    this.requestQueue.unshift(request);
+    this.dispatchNextRequest();
+    return true;
+  }
 
-    return new Promise<Buffer>((resolve, reject) => {
-      this.dataResolve = resolve;
-      this.dataReject = reject;
-
-      const timeout = setTimeout(() => {
-        this.dataWanted = false;
-        this.dataResolve = null;
-        this.dataReject = null;
-        reject(new Error("Timeout waiting for response"));
-      }, this.socketTimeout * 1000);
-
-      // Wrap resolve/reject to clear timeout
-      const origResolve = this.dataResolve;
-      const origReject = this.dataReject;
-
-      this.dataResolve = (data: Buffer) => {
-        clearTimeout(timeout);
-        origResolve(data);
-      };
-      this.dataReject = (err: Error) => {
-        clearTimeout(timeout);
-        origReject(err);
-      };
+  /** Reject the in-flight request and move on to the next one */
+  private failActiveRequest(err: Error): void {
+    const request = this.activeRequest;
+    if (!request) return;
+    this.activeRequest = null;
+    this.settleRequest(request);
+    request.reject(err);
+    this.dispatchNextRequest();
+  }
 
-      this.socket!.write(frame);
-    });
+  /** Reject the in-flight request and everything still queued */
+  private rejectAllRequests(err: Error): void {
+    const requests = this.activeRequest
+      ? [this.activeRequest, ...this.requestQueue]
+      : this.requestQueue;
+    this.activeRequest = null;
+    this.requestQueue = [];
+    for (const request of requests) {
+      this.settleRequest(request);
+      request.reject(err);
+    }
   }
 
-  /** Encode, send, receive, and decode a Modbus RTU frame */
-  private async sendReceiveModbusFrame(
-    mbRequestFrame: Buffer
-  ): Promise<Buffer> {
-    const v5RequestFrame = this.v5FrameEncoder(mbRequestFrame);
-    const v5ResponseFrame = await this.sendReceiveFrame(v5RequestFrame);
-    return this.v5FrameDecoder(v5ResponseFrame);
+  /** Clear the timer and abort listener of a request leaving the queue */
+  private settleRequest(request: QueuedRequest): void {
+    if (request.timer) clearTimeout(request.timer);
+    if (request.signal && request.onAbort) {
+      request.signal.removeEventListener("abort", request.onAbort);
+    }
   }
 
   /** Send Modbus request frame and return parsed response values */
   private async getModbusResponse(
-    mbRequestFrame: Buffer
+    mbRequestFrame: Buffer,
+    options?: RequestOptions
   ): Promise<number[]> {
-    const mbResponseFrame = await this.sendReceiveModbusFrame(mbRequestFrame);
+    return this.getParsedResponse(mbRequestFrame, modbus.parseResponseAdu, options);
+  }
+
+  /** Send Modbus request frame and parse the response with `parse` */
+  private async getParsedResponse<T>(
+    mbRequestFrame: Buffer,
+    parse: (response: Buffer, request: Buffer) => T,
+    options?: RequestOptions
+  ): Promise<T> {
+    const mbResponseFrame = await this.sendReceiveModbusFrame(
+      mbRequestFrame,
+      options
+    );
     try {
-      return modbus.parseResponseAdu(mbResponseFrame, mbRequestFrame);
+      return parse(mbResponseFrame, mbRequestFrame);
     } catch (e) {
-      if (e instanceof Error && e.message.includes("CRC")) {
-        // Try handling double CRC
-        const corrected = this.handleDoubleCrc(mbResponseFrame);
+      if (
+        e instanceof modbus.ModbusResponseLengthError ||
+        (e instanceof Error && e.message.includes("CRC"))
+      ) {
+        // Try handling double CRC. A CRC appended to a valid frame is
+        // 0x0000, so such a frame passes the CRC check but is too long
+        const corrected = modbus.stripDoubleCrc(mbResponseFrame);
         if (corrected.length !== mbResponseFrame.length) {
-          return modbus.parseResponseAdu(corrected, mbRequestFrame);
+          return parse(corrected, mbRequestFrame);
         }
       }
       throw e;
@@ -636,14 +941,7 @@ export class SolarmanV5 extends EventEmitter {
 
   /** Calculate 2s complement */
   static twosComplement(val: number, numBits: number): number {
-    if (val < 0) {
-      val = (1 << numBits) + val;
-    } else {
-      if (val & (1 << (numBits - 1))) {
-        val = val - (1 << numBits);
-      }
-    }
-    return val;
+    return twosComplement(val, numBits);
   }
 
   /** Format a list of modbus register values as a single value */
@@ -651,30 +949,7 @@ export class SolarmanV5 extends EventEmitter {
     modbusValues: number[],
     options: FormatOptions = {}
   ): number {
-    const { scale = 1, signed = false, bitmask, bitshift } = options;
-
-    let response = 0;
-    const numRegisters = modbusValues.length;
-
-    for (let i = 0; i < numRegisters; i++) {
-      const j = numRegisters - 1 - i;
-      response += modbusValues[i] * Math.pow(2, j * 16);
-    }
-
-    if (signed) {
-      response = SolarmanV5.twosComplement(response, numRegisters * 16);
-    }
-    if (scale !== 1) {
-      response *= scale;
-    }
-    if (bitmask !== undefined) {
-      response &= bitmask;
-    }
-    if (bitshift !== undefined) {
-      response >>= bitshift;
-    }
-
-    return response;
+    return formatRegisters(modbusValues, options);
   }
 
   // ---------- Public Modbus API ----------
@@ -684,18 +959,20 @@ export class SolarmanV5 extends EventEmitter {
    *
    * @param registerAddr  Modbus register start address
    * @param quantity      Number of registers to query
+   * @param options       Per-request timeout and cancellation
    * @returns Array of register values
    */
   async readInputRegisters(
     registerAddr: number,
-    quantity: number
+    quantity: number,
+    options?: RequestOptions
   ): Promise<number[]> {
     const frame = modbus.readInputRegisters(
       this.mbSlaveId,
       registerAddr,
       quantity
     );
-    return this.getModbusResponse(frame);
+    return this.getModbusResponse(frame, options);
   }
 
   /**
@@ -703,18 +980,20 @@ export class SolarmanV5 extends EventEmitter {
    *
    * @param registerAddr  Modbus register start address
    * @param quantity      Number of registers to query
+   * @param options       Per-request timeout and cancellation
    * @returns Array of register values
    */
   async readHoldingRegisters(
     registerAddr: number,
-    quantity: number
+    quantity: number,
+    options?: RequestOptions
   ): Promise<number[]> {
     const frame = modbus.readHoldingRegisters(
       this.mbSlaveId,
       registerAddr,
       quantity
     );
-    return this.getModbusResponse(frame);
+    return this.getModbusResponse(frame, options);
   }
 
   /**
@@ -723,9 +1002,14 @@ export class SolarmanV5 extends EventEmitter {
   async readInputRegisterFormatted(
     registerAddr: number,
     quantity: number,
-    options?: FormatOptions
+    options?: FormatOptions,
+    requestOptions?: RequestOptions
   ): Promise<number> {
-    const values = await this.readInputRegisters(registerAddr, quantity);
+    const values = await this.readInputRegisters(
+      registerAddr,
+      quantity,
+      requestOptions
+    );
     return this.formatResponse(values, options);
   }
 
@@ -735,29 +1019,96 @@ export class SolarmanV5 extends EventEmitter {
   async readHoldingRegisterFormatted(
     registerAddr: number,
     quantity: number,
-    options?: FormatOptions
+    options?: FormatOptions,
+    requestOptions?: RequestOptions
   ): Promise<number> {
-    const values = await this.readHoldingRegisters(registerAddr, quantity);
+    const values = await this.readHoldingRegisters(
+      registerAddr,
+      quantity,
+      requestOptions
+    );
     return this.formatResponse(values, options);
   }
 
+  /**
+   * Read an arbitrary set of registers with as few requests as possible.
+   *
+   * The read planner merges adjacent registers, bridges gaps of up to
+   * `plan.maxGap` registers, splits requests at `plan.maxQuantity` and
+   * never reads `plan.holes`.
+   *
+   * @param addresses  Register addresses to read
+   * @param plan       Device limits and register table. Default table: "holding"
+   * @param options    Per-request timeout and cancellation
+   * @returns Register values keyed by address (including bridged registers)
+   */
+  async readRegisters(
+    addresses: Iterable<number>,
+    plan: ReadPlanOptions & { table?: RegisterTable } = {},
+    options?: RequestOptions
+  ): Promise<Map<number, number>> {
+    const registers = new Map<number, number>();
+    for (const read of planReads(addresses, plan)) {
+      const values =
+        plan.table === "input"
+          ? await this.readInputRegisters(read.start, read.quantity, options)
+          : await this.readHoldingRegisters(read.start, read.quantity, options);
+      values.forEach((value, i) => registers.set(read.start + i, value));
+    }
+    return registers;
+  }
+
+  /**
+   * Read every field of a register map and decode it.
+   *
+   * Reads are planned from the map's `maxRegistersPerRequest`, `maxGap` and
+   * `holes` (see `readRegisters()`).
+   *
+   * @param map      Register map describing the fields to read
+   * @param options  Per-request timeout and cancellation
+   * @returns Decoded values keyed by field name
+   */
+  async readMap(
+    map: RegisterMap,
+    options?: RequestOptions
+  ): Promise<RegisterMapResult> {
+    const registers = {
+      holding: new Map<number, number>(),
+      input: new Map<number, number>(),
+    };
+
+    for (const block of registerMapBlocks(map)) {
+      const values =
+        block.table === "input"
+          ? await this.readInputRegisters(block.start, block.count, options)
+          : await this.readHoldingRegisters(block.start, block.count, options);
+      values.forEach((value, i) =>
+        registers[block.table].set(block.start + i, value)
+      );
+    }
+
+    return decodeRegisterMap(map, registers);
+  }
+
   /**
    * Write a single holding register (Modbus function code 6)
    *
    * @param registerAddr  Modbus register address
    * @param value         Value to write
+   * @param options       Per-request timeout and cancellation
    * @returns Value written
    */
   async writeHoldingRegister(
     registerAddr: number,
-    value: number
+    value: number,
+    options?: RequestOptions
   ): Promise<number> {
     const frame = modbus.writeSingleRegister(
       this.mbSlaveId,
       registerAddr,
       value
     );
-    const result = await this.getModbusResponse(frame);
+    const result = await this.getModbusResponse(frame, options);
     return result[0];
   }
 
@@ -766,18 +1117,20 @@ export class SolarmanV5 extends EventEmitter {
    *
    * @param registerAddr  Modbus register start address
    * @param values        Values to write
+   * @param options       Per-request timeout and cancellation
    * @returns Number of registers written
    */
   async writeMultipleHoldingRegisters(
     registerAddr: number,
-    values: number[]
+    values: number[],
+    options?: RequestOptions
   ): Promise<number[]> {
     const frame = modbus.writeMultipleRegisters(
       this.mbSlaveId,
       registerAddr,
       values
     );
-    return this.getModbusResponse(frame);
+    return this.getModbusResponse(frame, options);
   }
 
   /**
@@ -785,14 +1138,16 @@ export class SolarmanV5 extends EventEmitter {
    *
    * @param registerAddr  Modbus register start address
    * @param quantity      Number of coils to query
+   * @param options       Per-request timeout and cancellation
    * @returns Array of coil values (0 or 1)
    */
   async readCoils(
     registerAddr: number,
-    quantity: number
+    quantity: number,
+    options?: RequestOptions
   ): Promise<number[]> {
     const frame = modbus.readCoils(this.mbSlaveId, registerAddr, quantity);
-    return this.getModbusResponse(frame);
+    return this.getModbusResponse(frame, options);
   }
 
   /**
@@ -800,18 +1155,20 @@ export class SolarmanV5 extends EventEmitter {
    *
    * @param registerAddr  Modbus register start address
    * @param quantity      Number of inputs to query
+   * @param options       Per-request timeout and cancellation
    * @returns Array of input values (0 or 1)
    */
   async readDiscreteInputs(
     registerAddr: number,
-    quantity: number
+    quantity: number,
+    options?: RequestOptions
   ): Promise<number[]> {
     const frame = modbus.readDiscreteInputs(
       this.mbSlaveId,
       registerAddr,
       quantity
     );
-    return this.getModbusResponse(frame);
+    return this.getModbusResponse(frame, options);
   }
 
   /**
@@ -819,18 +1176,20 @@ export class SolarmanV5 extends EventEmitter {
    *
    * @param registerAddr  Modbus register address
    * @param value         0xFF00 (On) or 0x0000 (Off)
+   * @param options       Per-request timeout and cancellation
    * @returns Value written
    */
   async writeSingleCoil(
     registerAddr: number,
-    value: number
+    value: number,
+    options?: RequestOptions
   ): Promise<number> {
     const frame = modbus.writeSingleCoil(
       this.mbSlaveId,
       registerAddr,
       value
     );
-    const result = await this.getModbusResponse(frame);
+    const result = await this.getModbusResponse(frame, options);
     return result[0];
   }
 
@@ -839,60 +1198,230 @@ export class SolarmanV5 extends EventEmitter {
    *
    * @param registerAddr  Modbus register start address
    * @param values        Values to write (1 = On, 0 = Off)
+   * @param options       Per-request timeout and cancellation
    * @returns Number of coils written
    */
   async writeMultipleCoils(
     registerAddr: number,
-    values: number[]
+    values: number[],
+    options?: RequestOptions
   ): Promise<number[]> {
     const frame = modbus.writeMultipleCoils(
       this.mbSlaveId,
       registerAddr,
       values
     );
-    return this.getModbusResponse(frame);
+    return this.getModbusResponse(frame, options);
+  }
+
+  /**
+   * Read the device identification objects (Modbus function code 43 / MEI 14).
+   * Follows "more follows" responses until every object up to `level` has
+   * been read.
+   *
+   * @param level    Read Device ID code: basic (1), regular (2) or extended (3).
+   *                 Default: extended
+   * @param options  Per-request timeout and cancellation
+   * @returns Vendor name, product code, revision and all other objects
+   */
+  async readDeviceIdentification(
+    level: number = modbus.DeviceIdCode.EXTENDED,
+    options?: RequestOptions
+  ): Promise<modbus.DeviceIdentification> {
+    const objects = new Map<number, Buffer>();
+    let conformityLevel = 0;
+    let objectId = 0;
+
+    // A device never has more than 256 objects; guard against looping forever
+    for (let i = 0; i < 256; i++) {
+      const frame = modbus.readDeviceIdentification(this.mbSlaveId, level, objectId);
+      const response = await this.getParsedResponse(
+        frame,
+        modbus.parseDeviceIdentificationAdu,
+        options
+      );
+      conformityLevel = response.conformityLevel;
+      for (const object of response.objects) {
+        objects.set(object.id, object.value);
+      }
+      if (!response.moreFollows || response.nextObjectId <= objectId) break;
+      objectId = response.nextObjectId;
+    }
+
+    const text = (id: number) =>
+      objects.get(id)?.toString("latin1").replace(/\0+$/, "");
+    return {
+      vendorName: text(0x00) ?? "",
+      productCode: text(0x01) ?? "",
+      revision: text(0x02) ?? "",
+      vendorUrl: text(0x03),
+      productName: text(0x04),
+      modelName: text(0x05),
+      userApplicationName: text(0x06),
+      conformityLevel,
+      objects,
+    };
   }
 
   /**
    * Mask write a single holding register (Modbus function code 22).
    *
-   * This is a software implementation using read + write. It is NOT atomic.
+   * The new value is (current OR orMask) AND andMask. Unless the client was
+   * created with `nativeFunctions`, this is a software implementation using
+   * read + write and is NOT atomic.
    *
    * @param registerAddr  Modbus register address
    * @param orMask        OR mask (set bits). Default: 0x0000
    * @param andMask       AND mask (clear bits). Default: 0xFFFF
-   * @returns Value written (or current value if no-op)
+   * @param options       Per-request timeout and cancellation
+   * @returns Value written (or current value if no-op). A native FC 22
+   *          response does not carry the new value, so the register is read
+   *          back after the write.
    */
   async maskedWriteHoldingRegister(
     registerAddr: number,
     orMask = 0x0000,
-    andMask = 0xffff
+    andMask = 0xffff,
+    options?: RequestOptions
   ): Promise<number> {
-    const currentValues = await this.readHoldingRegisters(registerAddr, 1);
+    if (orMask !== 0x0000 || andMask !== 0xffff) {
+      // null when the native write was used
+      const written = await this.withNativeFallback<number | null>(
+        0x16,
+        async () => {
+          // FC 22 computes (current AND and) OR (or AND NOT and)
+          const frame = modbus.maskWriteRegister(
+            this.mbSlaveId,
+            registerAddr,
+            andMask & ~orMask & 0xffff,
+            orMask & andMask
+          );
+          await this.getModbusResponse(frame, options);
+          return null;
+        },
+        () => this.emulateMaskedWrite(registerAddr, orMask, andMask, options)
+      );
+      if (written !== null) return written;
+      const [value] = await this.readHoldingRegisters(registerAddr, 1, options);
+      return value;
+    }
+    return this.emulateMaskedWrite(registerAddr, orMask, andMask, options);
+  }
+
+  private async emulateMaskedWrite(
+    registerAddr: number,
+    orMask: number,
+    andMask: number,
+    options?: RequestOptions
+  ): Promise<number> {
+    const currentValues = await this.readHoldingRegisters(
+      registerAddr,
+      1,
+      options
+    );
     const currentValue = currentValues[0];
 
     if (orMask !== 0x0000 || andMask !== 0xffff) {
       let maskedValue = currentValue;
       maskedValue |= orMask;
       maskedValue &= andMask;
-      return this.writeHoldingRegister(registerAddr, maskedValue);
+      return this.writeHoldingRegister(registerAddr, maskedValue, options);
     }
     return currentValue;
   }
 
+  /**
+   * Write then read holding registers (Modbus function code 23).
+   *
+   * Unless the client was created with `nativeFunctions`, this is emulated
+   * with a write (FC 16) followed by a read (FC 3) and is NOT atomic.
+   *
+   * @param readAddr      Modbus register start address to read
+   * @param readQuantity  Number of registers to read
+   * @param writeAddr     Modbus register start address to write
+   * @param values        Values to write
+   * @param options       Per-request timeout and cancellation
+   * @returns Register values read after the write
+   */
+  async readWriteMultipleHoldingRegisters(
+    readAddr: number,
+    readQuantity: number,
+    writeAddr: number,
+    values: number[],
+    options?: RequestOptions
+  ): Promise<number[]> {
+    return this.withNativeFallback(
+      0x17,
+      () => {
+        const frame = modbus.readWriteMultipleRegisters(
+          this.mbSlaveId,
+          readAddr,
+          readQuantity,
+          writeAddr,
+          values
+        );
+        return this.getModbusResponse(frame, options);
+      },
+      async () => {
+        await this.writeMultipleHoldingRegisters(writeAddr, values, options);
+        return this.readHoldingRegisters(readAddr, readQuantity, options);
+      }
+    );
+  }
+
+  /**
+   * Use the native function code if enabled and not rejected by the device
+   * before, falling back to the emulation on IllegalFunction
+   */
+  private async withNativeFallback<T>(
+    functionCode: number,
+    native: () => Promise<T>,
+    emulated: () => Promise<T>
+  ): Promise<T> {
+    if (this.nativeFunctions && !this.unsupportedFunctions.has(functionCode)) {
+      try {
+        return await native();
+      } catch (err) {
+        if (!(err instanceof modbus.ModbusError) || err.exceptionCode !== 0x01) {
+          throw err;
+        }
+        this.log.debug(
+          `[${this.serial}] FC ${functionCode} not supported by the device, emulating`
+        );
+        this.unsupportedFunctions.add(functionCode);
+      }
+    }
+    return emulated();
+  }
+
   /**
    * Send a raw Modbus RTU frame and return the raw response frame
    */
-  async sendRawModbusFrame(mbRequestFrame: Buffer): Promise<Buffer> {
-    return this.sendReceiveModbusFrame(mbRequestFrame);
+  async sendRawModbusFrame(
+    mbRequestFrame: Buffer,
+    options?: RequestOptions
+  ): Promise<Buffer> {
+    return this.sendReceiveModbusFrame(mbRequestFrame, options);
   }
 
   /**
    * Send a raw Modbus RTU frame and return parsed response values
    */
   async sendRawModbusFrameParsed(
-    mbRequestFrame: Buffer
+    mbRequestFrame: Buffer,
+    options?: RequestOptions
   ): Promise<number[]> {
-    return this.getModbusResponse(mbRequestFrame);
+    return this.getModbusResponse(mbRequestFrame, options);
+  }
+
+  /**
+   * Send a raw Modbus RTU frame and return the validated, typed response
+   * (see `modbus.parseResponse()`)
+   */
+  async sendRawModbusFrameTyped(
+    mbRequestFrame: Buffer,
+    options?: RequestOptions
+  ): Promise<modbus.ModbusResponse> {
+    return this.getParsedResponse(mbRequestFrame, modbus.parseResponse, options);
   }
 }
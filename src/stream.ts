@@ -0,0 +1,148 @@
+/**
+ * V5 frame reassembly for TCP byte streams.
+ *
+ * TCP does not preserve message boundaries: a V5 frame may arrive split
+ * across several `data` events, and several frames (e.g. a heartbeat and a
+ * Modbus response) may arrive in one. `V5FrameAccumulator` buffers incoming
+ * bytes and hands out complete frames, using the length field to find the
+ * end of each frame and the start byte, end byte and checksum to validate
+ * it. Bytes that cannot belong to a valid frame are discarded and the
+ * accumulator resynchronises on the next start byte. A start byte whose
+ * frame is still incomplete is dropped as soon as a complete, valid frame
+ * follows it.
+ */
+
+const V5_START = 0xa5;
+const V5_END = 0x15;
+/** Header (11 bytes) + trailer (2 bytes) */
+const V5_OVERHEAD = 13;
+
+export interface V5FrameAccumulatorOptions {
+  /**
+   * Largest payload length accepted from the length field. A start byte
+   * followed by a larger length is treated as garbage. Default: 2048
+   */
+  maxPayloadLength?: number;
+  /** Called with any bytes discarded while resynchronising */
+  onDiscard?: (bytes: Buffer) => void;
+}
+
+export class V5FrameAccumulator {
+  public readonly maxPayloadLength: number;
+
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly onDiscard?: (bytes: Buffer) => void;
+
+  constructor(options: V5FrameAccumulatorOptions = {}) {
+    this.maxPayloadLength = options.maxPayloadLength ?? 2048;
+    this.onDiscard = options.onDiscard;
+  }
+
+  /** Number of buffered bytes not yet part of a complete frame */
+  get pending(): number {
+    return this.buffer.length;
+  }
+
+  /** Drop all buffered bytes (e.g. after a reconnect) */
+  reset(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+
+  /**
+   * Add received bytes and return every frame they complete, in order.
+   * Returned frames are copies and remain valid after further pushes.
+   */
+  push(chunk: Buffer): Buffer[] {
+    this.buffer =
+      this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+    const frames: Buffer[] = [];
+
+    while (this.buffer.length > 0) {
+      if (this.buffer[0] !== V5_START) {
+        const start = this.buffer.indexOf(V5_START);
+        const skip = start === -1 ? this.buffer.length : start;
+        this.discard(this.buffer.subarray(0, skip));
+        this.buffer = this.buffer.subarray(skip);
+        continue;
+      }
+
+      // Need the length field before the frame size is known
+      if (this.buffer.length < 3) break;
+
+      const payloadLen = this.buffer.readUInt16LE(1);
+      if (payloadLen > this.maxPayloadLength) {
+        this.discard(this.buffer.subarray(0, 1));
+        this.buffer = this.buffer.subarray(1);
+        continue;
+      }
+
+      const frameLen = V5_OVERHEAD + payloadLen;
+      if (this.buffer.length < frameLen) {
+        // A complete frame after this start byte means the start byte was
+        // spurious, so don't wait for the rest of a frame that never comes
+        if (this.hasLaterFrame()) {
+          this.discard(this.buffer.subarray(0, 1));
+          this.buffer = this.buffer.subarray(1);
+          continue;
+        }
+        break;
+      }
+
+      const frame = this.buffer.subarray(0, frameLen);
+      if (!V5FrameAccumulator.isValidFrame(frame)) {
+        // False start byte: skip it and look for the next one
+        this.discard(this.buffer.subarray(0, 1));
+        this.buffer = this.buffer.subarray(1);
+        continue;
+      }
+
+      frames.push(Buffer.from(frame));
+      this.buffer = this.buffer.subarray(frameLen);
+    }
+
+    // Keep the remainder in its own allocation, detached from the chunk
+    this.buffer = Buffer.from(this.buffer);
+
+    return frames;
+  }
+
+  /** Check start byte, end byte and checksum of a complete frame */
+  static isValidFrame(frame: Buffer): boolean {
+    if (frame.length < V5_OVERHEAD) return false;
+    if (frame[0] !== V5_START || frame[frame.length - 1] !== V5_END) {
+      return false;
+    }
+    let checksum = 0;
+    for (let i = 1; i < frame.length - 2; i++) {
+      checksum = (checksum + frame[i]) & 0xff;
+    }
+    return frame[frame.length - 2] === checksum;
+  }
+
+  /** Check whether a valid frame starts anywhere after the first byte */
+  private hasLaterFrame(): boolean {
+    for (
+      let start = this.buffer.indexOf(V5_START, 1);
+      start !== -1 && start + V5_OVERHEAD <= this.buffer.length;
+      start = this.buffer.indexOf(V5_START, start + 1)
+    ) {
+      const payloadLen = this.buffer.readUInt16LE(start + 1);
+      const end = start + V5_OVERHEAD + payloadLen;
+      if (
+        payloadLen <= this.maxPayloadLength &&
+        end <= this.buffer.length &&
+        V5FrameAccumulator.isValidFrame(this.buffer.subarray(start, end))
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private discard(bytes: Buffer): void {
+    if (bytes.length > 0 && this.onDiscard) {
+      this.onDiscard(Buffer.from(bytes));
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Transports – the byte streams SolarmanV5 talks V5 over.
+ *
+ * `TcpTransport` is the default and opens a TCP connection to the logger.
+ * `StreamTransport` wraps any Node.js Duplex stream, e.g. an in-memory
+ * stream in tests, a TLS or SOCKS tunnelled socket, or a connection a
+ * logger opened to a local server. Custom transports implement `Transport`.
+ */
+
+import net from "node:net";
+import { EventEmitter } from "node:events";
+import type { Duplex } from "node:stream";
+
+// ---------- Interface ----------
+
+export interface TransportEvents {
+  /** Bytes received from the logger */
+  data: [data: Buffer];
+  /** The connection closed, for whatever reason */
+  close: [];
+  error: [err: Error];
+}
+
+export interface Transport extends EventEmitter<TransportEvents> {
+  /** Whether the connection is open and writable */
+  readonly isOpen: boolean;
+  /** Open the connection. Called again to reconnect after `close` */
+  connect(): Promise<void>;
+  /** Send bytes to the logger */
+  write(data: Buffer): void;
+  /** Close the connection gracefully */
+  close(): Promise<void>;
+  /** Close the connection immediately */
+  destroy(): void;
+}
+
+// ---------- Stream transport ----------
+
+/** A ready-to-use stream, or a function that opens a new one on every connect */
+export type StreamSource = Duplex | (() => Duplex | Promise<Duplex>);
+
+/** How long close() waits for the stream to close before destroying it */
+const CLOSE_TIMEOUT = 500;
+
+export class StreamTransport extends EventEmitter<TransportEvents> implements Transport {
+  private readonly source: StreamSource;
+  private stream: Duplex | null = null;
+  private used = false;
+
+  /**
+   * @param source  A stream, or a factory returning a connected stream. A
+   *                stream instance can only be connected once; use a
+   *                factory to support reconnects.
+   */
+  constructor(source: StreamSource) {
+    super();
+    this.source = source;
+  }
+
+  get isOpen(): boolean {
+    return this.stream !== null && !this.stream.destroyed;
+  }
+
+  async connect(): Promise<void> {
+    if (this.isOpen) return;
+
+    let stream: Duplex;
+    if (typeof this.source === "function") {
+      stream = await this.source();
+    } else {
+      if (this.used) {
+        throw new Error("Stream transport cannot reopen a closed stream");
+      }
+      stream = this.source;
+    }
+    this.used = true;
+
+    if (stream.destroyed) {
+      throw new Error("Stream is already closed");
+    }
+    this.attach(stream);
+  }
+
+  write(data: Buffer): void {
+    if (!this.stream || this.stream.destroyed) {
+      throw new Error("Transport is not open");
+    }
+    this.stream.write(data);
+  }
+
+  async close(): Promise<void> {
+    const stream = this.stream;
+    if (!stream) return;
+
+    return new Promise<void>((resolve) => {
+      if (stream.destroyed) {
+        resolve();
+        return;
+      }
+      // If end doesn't trigger close fast enough, force destroy
+      const timer = setTimeout(() => stream.destroy(), CLOSE_TIMEOUT);
+      stream.once("close", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      stream.end();
+    });
+  }
+
+  destroy(): void {
+    this.stream?.destroy();
+  }
+
+  private attach(stream: Duplex): void {
+    this.stream = stream;
+
+    const onData = (data: Buffer | string) => {
+      this.emit("data", Buffer.isBuffer(data) ? data : Buffer.from(data));
+    };
+    const onError = (err: Error) => {
+      // The stream closes after an error, which is reported as `close`
+      if (this.listenerCount("error") > 0) {
+        this.emit("error", err);
+      }
+    };
+    const onClose = () => {
+      stream.removeListener("data", onData);
+      stream.removeListener("error", onError);
+      // A stream replaced by a reconnect closes late; its close is stale
+      if (this.stream === stream) {
+        this.stream = null;
+        this.emit("close");
+      }
+    };
+
+    stream.on("data", onData);
+    stream.on("error", onError);
+    stream.once("close", onClose);
+  }
+}
+
+// ---------- TCP transport ----------
+
+export interface TcpTransportOptions {
+  /** Host name or IP address of the data logging stick */
+  host: string;
+  /** TCP port. Default: 8899 */
+  port?: number;
+  /** Close the connection after this many idle seconds. Default: 60 */
+  timeout?: number;
+}
+
+/** Plain TCP connection to the data logging stick */
+export class TcpTransport extends StreamTransport {
+  public readonly host: string;
+  public readonly port: number;
+  public readonly timeout: number;
+
+  constructor(options: TcpTransportOptions) {
+    const port = options.port ?? 8899;
+    const timeout = options.timeout ?? 60;
+    super(() => openTcpSocket(options.host, port, timeout));
+    this.host = options.host;
+    this.port = port;
+    this.timeout = timeout;
+  }
+}
+
+function openTcpSocket(host: string, port: number, timeout: number): Promise<net.Socket> {
+  return new Promise<net.Socket>((resolve, reject) => {
+    const socket = new net.Socket();
+    socket.setTimeout(timeout * 1000);
+    socket.on("timeout", () => socket.destroy());
+
+    const onError = (err: Error) => {
+      socket.removeListener("connect", onConnect);
+      reject(err);
+    };
+    const onConnect = () => {
+      socket.removeListener("error", onError);
+      resolve(socket);
+    };
+
+    socket.once("error", onError);
+    socket.once("connect", onConnect);
+    socket.connect(port, host);
+  });
+}
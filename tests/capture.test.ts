@@ -0,0 +1,118 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SolarmanV5 } from "../src/solarmanv5.js";
+import { SolarmanV5Simulator } from "../src/simulator.js";
+import {
+  CaptureError,
+  CaptureRecorder,
+  formatCaptureEntry,
+  loadCapture,
+  parseCapture,
+} from "../src/capture.js";
+
+const TEST_SERIAL = 2612749371;
+const TEST_PORT = 18930;
+
+describe("parseCapture", () => {
+  it("should round-trip formatted entries", () => {
+    const entry = {
+      timestamp: new Date("2026-01-01T12:00:00.000Z"),
+      direction: "sent" as const,
+      frame: Buffer.from("a51700104501", "hex"),
+    };
+    const line = formatCaptureEntry(entry);
+    expect(JSON.parse(line)).toEqual({
+      timestamp: "2026-01-01T12:00:00.000Z",
+      direction: "sent",
+      frame: "a51700104501",
+    });
+    expect(parseCapture(line + "\n\n" + line)).toEqual([entry, entry]);
+  });
+
+  it("should reject malformed lines with their line number", () => {
+    const ok = '{"timestamp":"2026-01-01T00:00:00Z","direction":"sent","frame":"a5"}';
+    expect(() => parseCapture(ok + "\n{")).toThrow(CaptureError);
+    expect(() => parseCapture(ok + "\n{")).toThrow(/^Line 2:/);
+    expect(() =>
+      parseCapture('{"timestamp":"2026-01-01T00:00:00Z","direction":"up","frame":"a5"}')
+    ).toThrow("direction");
+    expect(() =>
+      parseCapture('{"timestamp":"2026-01-01T00:00:00Z","direction":"sent","frame":"a5x"}')
+    ).toThrow("hex string");
+    expect(() => parseCapture('{"timestamp":"never","direction":"sent","frame":"a5"}')).toThrow(
+      "timestamp"
+    );
+  });
+});
+
+describe("SolarmanV5 record option", () => {
+  let dir: string;
+
+  afterAll(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should record every sent and received frame", async () => {
+    dir = await mkdtemp(join(tmpdir(), "solarmanv5-"));
+    const path = join(dir, "session.jsonl");
+    const simulator = new SolarmanV5Simulator({
+      serial: TEST_SERIAL,
+      port: TEST_PORT,
+      registers: { 1: { holding: { 0x0100: 100 } } },
+    });
+    await simulator.listen();
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, { port: TEST_PORT, record: path });
+    try {
+      await modbus.connect();
+      simulator.injectFault({ type: "heartbeat" });
+      await modbus.readHoldingRegisters(0x0100, 1);
+      await modbus.readHoldingRegisters(0x0100, 1);
+    } finally {
+      await modbus.disconnect();
+      await simulator.close();
+    }
+
+    const capture = await loadCapture(path);
+    // request, heartbeat, heartbeat time response, response, request, response
+    expect(capture.map((e) => `${e.direction}:${e.frame[4].toString(16)}`)).toEqual([
+      "sent:45",
+      "received:47",
+      "sent:17",
+      "received:15",
+      "sent:45",
+      "received:15",
+    ]);
+    expect(capture[0].timestamp).toBeInstanceOf(Date);
+    expect((await readFile(path, "utf8")).trim().split("\n")).toHaveLength(6);
+  });
+
+  it("should stop recording instead of crashing when the file cannot be written", async () => {
+    const path = join(tmpdir(), "solarmanv5-missing-dir", "session.jsonl");
+    const errors: Error[] = [];
+    const recorder = new CaptureRecorder(path, (err) => errors.push(err));
+    recorder.record("sent", Buffer.from("a5", "hex"));
+    recorder.record("sent", Buffer.from("a5", "hex"));
+    const failure = await recorder.close();
+    expect(failure).toBeInstanceOf(Error);
+    expect((failure as NodeJS.ErrnoException).code).toBe("ENOENT");
+    expect(errors).toEqual([failure]);
+
+    const simulator = new SolarmanV5Simulator({
+      serial: TEST_SERIAL,
+      port: TEST_PORT,
+      registers: { 1: { holding: { 0x0100: 100 } } },
+    });
+    await simulator.listen();
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, { port: TEST_PORT, record: path });
+    try {
+      await modbus.connect();
+      expect(await modbus.readHoldingRegisters(0x0100, 1)).toEqual([100]);
+      expect(await modbus.readHoldingRegisters(0x0100, 1)).toEqual([100]);
+    } finally {
+      await modbus.disconnect();
+      await simulator.close();
+    }
+  });
+});
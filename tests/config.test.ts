@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  ConfigError,
+  defaultConfigPath,
+  loadConfig,
+  parseConfig,
+  profileFromEnv,
+  resolveConnection,
+} from "../src/config.js";
+
+const CONFIG = parseConfig(
+  JSON.stringify({
+    default: "logger1",
+    profiles: {
+      logger1: { address: "192.168.1.100", serial: 1234567890 },
+      logger2: { address: "192.168.1.101", serial: 3574591882, mbSlaveId: 2, timeout: 10 },
+    },
+  })
+);
+
+describe("config file", () => {
+  it("should locate the config file", () => {
+    expect(defaultConfigPath({ SOLARMAN_CONFIG: "/etc/solarman.json" })).toBe(
+      "/etc/solarman.json"
+    );
+    expect(defaultConfigPath({ XDG_CONFIG_HOME: "/xdg" })).toBe("/xdg/solarman/config.json");
+    expect(defaultConfigPath({})).toMatch(/\.config[/\\]solarman[/\\]config\.json$/);
+  });
+
+  it("should reject invalid configs", () => {
+    expect(() => parseConfig("{")).toThrow(ConfigError);
+    expect(() => parseConfig("[]")).toThrow("Config must be a JSON object");
+    expect(() => parseConfig(`{"profiles": {"a": {"serial": "123"}}}`)).toThrow(
+      `Profile "a": "serial" must be a number`
+    );
+    expect(() => parseConfig(`{"profiles": {"a": {"host": "x"}}}`)).toThrow(
+      `unknown setting "host"`
+    );
+    expect(() => parseConfig(`{"default": "b", "profiles": {"a": {}}}`)).toThrow(
+      `Default profile "b" is not defined`
+    );
+    expect(() => parseConfig(`{"default": "toString", "profiles": {"a": {}}}`)).toThrow(
+      `Default profile "toString" is not defined`
+    );
+  });
+
+  it("should load a file and treat a missing file as empty", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "solarman-config-"));
+    try {
+      const path = join(dir, "config.json");
+      expect(await loadConfig(path)).toEqual({ profiles: {} });
+      await writeFile(path, `{"profiles": {"a": {"address": "10.0.0.1"}}}`);
+      expect(await loadConfig(path)).toEqual({ profiles: { a: { address: "10.0.0.1" } } });
+      await writeFile(path, `{"profiles": 1}`);
+      await expect(loadConfig(path)).rejects.toThrow(`${path}: "profiles" must be an object`);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
+
+describe("resolveConnection", () => {
+  it("should use the default profile and built-in defaults", () => {
+    expect(resolveConnection({ config: CONFIG, env: {} })).toEqual({
+      address: "192.168.1.100",
+      serial: 1234567890,
+      port: 8899,
+      mbSlaveId: 1,
+      timeout: 60,
+      verbose: false,
+      profile: "logger1",
+    });
+  });
+
+  it("should apply profile < environment < command line", () => {
+    const env = { SOLARMAN_PROFILE: "logger2", SOLARMAN_TIMEOUT: "20", SOLARMAN_VERBOSE: "yes" };
+    expect(resolveConnection({ config: CONFIG, env })).toMatchObject({
+      address: "192.168.1.101",
+      mbSlaveId: 2,
+      timeout: 20,
+      verbose: true,
+      profile: "logger2",
+    });
+    expect(
+      resolveConnection({
+        config: CONFIG,
+        env,
+        profile: "logger1",
+        cli: { timeout: 5, port: 9000, address: undefined },
+      })
+    ).toMatchObject({ address: "192.168.1.100", port: 9000, timeout: 5, profile: "logger1" });
+  });
+
+  it("should work without a config file", () => {
+    const env = { SOLARMAN_ADDRESS: "10.0.0.1", SOLARMAN_SERIAL: "42", SOLARMAN_PORT: "8900" };
+    expect(profileFromEnv(env)).toEqual({ address: "10.0.0.1", serial: 42, port: 8900 });
+    expect(resolveConnection({ env })).toMatchObject({ serial: 42, port: 8900, profile: null });
+  });
+
+  it("should report missing settings and unknown profiles", () => {
+    expect(() => resolveConnection({ env: {} })).toThrow("No logger address");
+    expect(() => resolveConnection({ env: { SOLARMAN_ADDRESS: "10.0.0.1" } })).toThrow(
+      "No logger serial number"
+    );
+    expect(() => resolveConnection({ config: CONFIG, env: {}, profile: "logger3" })).toThrow(
+      `Unknown profile "logger3" (known: logger1, logger2)`
+    );
+    expect(() => resolveConnection({ config: CONFIG, env: {}, profile: "constructor" })).toThrow(
+      `Unknown profile "constructor"`
+    );
+    expect(() => profileFromEnv({ SOLARMAN_PORT: "abc" })).toThrow(ConfigError);
+  });
+});
@@ -1,5 +1,15 @@
 import { describe, it, expect } from "vitest";
-import { V5Frame, V5CtrlCode, V5FrameType, decode } from "../src/decoder.js";
+import {
+  V5Frame,
+  V5CtrlCode,
+  V5FrameType,
+  V5Direction,
+  V5PayloadLayout,
+  decode,
+  decodeToObject,
+} from "../src/decoder.js";
+import { addCrc } from "../src/modbus.js";
+import { SolarmanV5 } from "../src/solarmanv5.js";
 
 // Known V5 request frame from pysolarmanv5 docs
 const KNOWN_REQUEST_HEX =
@@ -27,6 +37,44 @@ describe("V5Frame", () => {
   });
 });
 
+describe("control codes", () => {
+  const heartbeat = Buffer.from("a5010010470500b26e3c6a00" + "0015", "hex");
+  heartbeat[heartbeat.length - 2] = SolarmanV5.calculateV5FrameChecksum(heartbeat);
+
+  it("should recognise logger pushes", () => {
+    const frame = new V5Frame(heartbeat.toString("hex"));
+    expect(frame.controlCodeName).toBe("LoggerPing");
+    expect(frame.direction).toBe(V5Direction.LoggerToServer);
+    expect(frame.payloadLayout).toBe(V5PayloadLayout.Raw);
+    expect(frame.totalWorkTime).toBe(0);
+
+    const handshake = new V5Frame("a5000010410100b26e3c6a0015");
+    expect(handshake.controlCode).toBe(V5CtrlCode.LoggerHandshake);
+    const report = new V5Frame("a5000010480100b26e3c6a0015");
+    expect(report.controlCode).toBe(V5CtrlCode.LoggerReport);
+  });
+
+  it("should decode the time response payload", () => {
+    const response = SolarmanV5.timeResponseFrame(heartbeat);
+    const frame = new V5Frame(response.toString("hex"));
+    expect(frame.controlCode).toBe(V5CtrlCode.PingResponse);
+    expect(frame.direction).toBe(V5Direction.ServerToLogger);
+    expect(frame.payloadLayout).toBe(V5PayloadLayout.TimeResponse);
+    expect(frame.v5ChecksumValid).toBe(true);
+    expect(Math.abs(frame.timeResponse!.timestamp.getTime() - Date.now())).toBeLessThan(2000);
+    expect(frame.timeResponse!.offset).toBe(0);
+
+    const output = decode(response.toString("hex"));
+    expect(output).toContain("Control Code: PingResponse");
+    expect(output).toContain("Time Response: ");
+    expect(output).not.toContain("RTU Payload");
+
+    const decoded = decodeToObject(response.toString("hex"));
+    expect(decoded.rtu).toBeNull();
+    expect(decoded.timeResponse?.offset).toBe(0);
+  });
+});
+
 describe("decode", () => {
   it("should decode a frame passed as hex string array", () => {
     const hexBytes = KNOWN_REQUEST_HEX.replace(/\s+/g, "")
@@ -46,3 +94,54 @@ describe("decode", () => {
     expect(output).toContain("V5Request");
   });
 });
+
+describe("decodeToObject", () => {
+  it("should return the fields of a request frame", () => {
+    const decoded = decodeToObject(KNOWN_REQUEST_HEX);
+
+    expect(decoded.start).toEqual({ value: 0xa5, valid: true });
+    expect(decoded.end).toEqual({ value: 0x15, valid: true });
+    expect(decoded.checksum).toEqual({ value: 0x39, calculated: 0x39, valid: true });
+    expect(decoded.controlCodeName).toBe("V5Request");
+    expect(decoded.sequenceNumbers).toEqual([0xbb, 0x00]);
+    expect(decoded.serial).toBe(1782345394);
+    expect(decoded.frameTypeName).toBe("Inverter");
+    expect(decoded.rtu).toEqual({
+      kind: "Request",
+      slaveId: 1,
+      functionCode: 3,
+      address: 3,
+      quantity: 5,
+      data: "00030005",
+      crc: 0x75c9,
+      calculatedCrc: 0x75c9,
+      crcValid: true,
+      doubleCrc: false,
+    });
+    expect(decoded.loggerData).toBeNull();
+    expect(JSON.parse(JSON.stringify(decoded)).frameTime).toBe(decoded.frameTime.toISOString());
+  });
+
+  it("should detect double-CRC responses", () => {
+    const rtu = addCrc(addCrc(Buffer.from([0x01, 0x03, 0x02, 0x00, 0x2a])));
+    const frame = Buffer.alloc(27 + rtu.length);
+    frame[0] = 0xa5;
+    frame.writeUInt16LE(14 + rtu.length, 1);
+    frame.writeUInt16LE(V5CtrlCode.V5Response, 3);
+    frame.writeUInt32LE(1782345394, 7);
+    frame[11] = 0x02;
+    frame[12] = 0x01;
+    rtu.copy(frame, 25);
+    for (let i = 1; i < frame.length - 2; i++) {
+      frame[frame.length - 2] = (frame[frame.length - 2] + frame[i]) & 0xff;
+    }
+    frame[frame.length - 1] = 0x15;
+
+    const decoded = decodeToObject(frame.toString("hex"));
+    expect(decoded.checksum.valid).toBe(true);
+    expect(decoded.frameStatus).toBe(1);
+    expect(decoded.rtu?.kind).toBe("Response");
+    expect(decoded.rtu?.address).toBeNull();
+    expect(decoded.rtu?.doubleCrc).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import net from "node:net";
+import { SolarmanV5 } from "../src/solarmanv5.js";
+import { ModbusTcpGateway } from "../src/gateway.js";
+import { addCrc, ModbusResponseMismatchError } from "../src/modbus.js";
+import { SolarmanV5Simulator, type SimulatorRequest } from "../src/simulator.js";
+
+const TEST_SERIAL = 2612749371;
+const LOGGER_PORT = 18910;
+
+/** Build a Modbus TCP read holding registers request */
+function mbapRead(transactionId: number, unitId: number, start: number, quantity: number): Buffer {
+  const adu = Buffer.alloc(12);
+  adu.writeUInt16BE(transactionId, 0);
+  adu.writeUInt16BE(0, 2);
+  adu.writeUInt16BE(6, 4);
+  adu[6] = unitId;
+  adu[7] = 0x03;
+  adu.writeUInt16BE(start, 8);
+  adu.writeUInt16BE(quantity, 10);
+  return adu;
+}
+
+/** Send raw bytes and collect `count` complete MBAP responses */
+function exchange(port: number, chunks: Buffer[], count: number): Promise<Buffer[]> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(port, "127.0.0.1");
+    let buffer = Buffer.alloc(0);
+    const responses: Buffer[] = [];
+    socket.on("connect", () => {
+      for (const chunk of chunks) socket.write(chunk);
+    });
+    socket.on("data", (data) => {
+      buffer = Buffer.concat([buffer, data]);
+      while (buffer.length >= 6 && buffer.length >= 6 + buffer.readUInt16BE(4)) {
+        const len = 6 + buffer.readUInt16BE(4);
+        responses.push(buffer.subarray(0, len));
+        buffer = buffer.subarray(len);
+      }
+      if (responses.length >= count) {
+        socket.destroy();
+        resolve(responses);
+      }
+    });
+    socket.on("error", reject);
+  });
+}
+
+describe("ModbusTcpGateway", () => {
+  const requests: SimulatorRequest[] = [];
+  let logger: SolarmanV5Simulator;
+  let client: SolarmanV5;
+  let gateway: ModbusTcpGateway;
+  let port: number;
+
+  beforeAll(async () => {
+    // Every holding register holds its own address
+    const holding: Record<number, number> = {};
+    for (let address = 0; address < 0x200; address++) holding[address] = address;
+    logger = new SolarmanV5Simulator({
+      serial: TEST_SERIAL,
+      port: LOGGER_PORT,
+      registers: { 1: { holding }, 7: { holding } },
+    });
+    logger.on("request", (request) => requests.push(request));
+    await logger.listen();
+    client = new SolarmanV5("127.0.0.1", TEST_SERIAL, { port: LOGGER_PORT, mbSlaveId: 7 });
+    await client.connect();
+    gateway = new ModbusTcpGateway(client, {
+      port: 0,
+      host: "127.0.0.1",
+      request: { timeout: 0.3 },
+    });
+    gateway.on("error", () => {});
+    await gateway.listen();
+    port = gateway.address()!.port;
+  });
+
+  afterAll(async () => {
+    await gateway.close();
+    await client.disconnect();
+    await logger.close();
+  });
+
+  it("should reject invalid options", () => {
+    expect(() => new ModbusTcpGateway(client, { unitId: 256 })).toThrow("Invalid unitId");
+    expect(() => new ModbusTcpGateway(client, { port: NaN })).toThrow("Invalid port");
+  });
+
+  it("should forward reads and wrap the response in MBAP", async () => {
+    const [response] = await exchange(port, [mbapRead(0x1234, 1, 0x0100, 2)], 1);
+    expect(response.toString("hex")).toBe("1234" + "0000" + "0007" + "01" + "0304" + "0100" + "0101");
+    expect(requests.at(-1)!.slaveId).toBe(1);
+  });
+
+  it("should map unit ID 255 to the client's slave ID", async () => {
+    const [response] = await exchange(port, [mbapRead(1, 255, 0x0010, 1)], 1);
+    expect(response[6]).toBe(255);
+    expect(requests.at(-1)!.slaveId).toBe(7);
+  });
+
+  it("should return Modbus exception responses", async () => {
+    logger.injectFault({ type: "exception", code: 0x02 });
+    const [response] = await exchange(port, [mbapRead(2, 1, 0x0100, 1)], 1);
+    expect(response.subarray(7).toString("hex")).toBe("8302");
+  });
+
+  it("should answer with a gateway exception when the logger does not respond", async () => {
+    logger.injectFault({ type: "noReply" });
+    const [response] = await exchange(port, [mbapRead(3, 1, 0x0100, 1)], 1);
+    expect(response.readUInt16BE(0)).toBe(3);
+    expect(response.subarray(7).toString("hex")).toBe("830b");
+  });
+
+  it("should strip a double CRC before answering", async () => {
+    logger.injectFault({ type: "doubleCrc" });
+    const [response] = await exchange(port, [mbapRead(4, 1, 0x0100, 1)], 1);
+    expect(response.subarray(4).toString("hex")).toBe("0005" + "01" + "0302" + "0100");
+  });
+
+  it("should check the response against the request", () => {
+    const request = addCrc(Buffer.from([0x01, 0x03, 0x01, 0x00, 0x00, 0x01]));
+    expect(
+      ModbusTcpGateway.responsePdu(addCrc(Buffer.from([0x01, 0x03, 0x02, 0x00, 0x2a])), request)
+    ).toEqual(Buffer.from([0x03, 0x02, 0x00, 0x2a]));
+    expect(ModbusTcpGateway.responsePdu(addCrc(Buffer.from([0x01, 0x83, 0x02])), request)).toEqual(
+      Buffer.from([0x83, 0x02])
+    );
+    expect(() =>
+      ModbusTcpGateway.responsePdu(addCrc(Buffer.from([0x02, 0x03, 0x02, 0x00, 0x2a])), request)
+    ).toThrow(ModbusResponseMismatchError);
+    expect(() =>
+      ModbusTcpGateway.responsePdu(addCrc(Buffer.from([0x01, 0x04, 0x02, 0x00, 0x2a])), request)
+    ).toThrow(ModbusResponseMismatchError);
+    expect(() =>
+      ModbusTcpGateway.responsePdu(addCrc(Buffer.from([0x01, 0x03, 0x04, 0x00, 0x2a])), request)
+    ).toThrow(ModbusResponseMismatchError);
+  });
+
+  it("should handle split and pipelined requests in order", async () => {
+    const two = Buffer.concat([mbapRead(10, 1, 0x0001, 1), mbapRead(11, 1, 0x0002, 1)]);
+    const responses = await exchange(port, [two.subarray(0, 5), two.subarray(5)], 2);
+    expect(responses.map((r) => r.readUInt16BE(0))).toEqual([10, 11]);
+    expect(responses.map((r) => r.readUInt16BE(9))).toEqual([1, 2]);
+  });
+
+  it("should serve several clients concurrently", async () => {
+    const results = await Promise.all(
+      [0x20, 0x30, 0x40].map((start, i) => exchange(port, [mbapRead(i, 1, start, 1)], 1))
+    );
+    expect(results.map(([r]) => r.readUInt16BE(9))).toEqual([0x20, 0x30, 0x40]);
+  });
+
+  it("should build MBAP frames", () => {
+    expect(ModbusTcpGateway.mbapFrame(5, 1, Buffer.from([0x06, 0x00, 0x01])).toString("hex")).toBe(
+      "00050000000401060001"
+    );
+  });
+});
@@ -12,8 +12,16 @@ import {
   writeSingleRegister,
   writeMultipleCoils,
   writeMultipleRegisters,
+  maskWriteRegister,
+  readWriteMultipleRegisters,
+  parseResponse,
   parseResponseAdu,
+  responseValues,
+  readDeviceIdentification,
+  parseDeviceIdentificationAdu,
   ModbusError,
+  ModbusResponseMismatchError,
+  ModbusResponseLengthError,
 } from "../src/modbus.js";
 
 describe("CRC-16/Modbus", () => {
@@ -188,6 +196,23 @@ describe("parseResponseAdu", () => {
     expect(values).toEqual([0x1234]);
   });
 
+  it("parses FC 22 (Mask Write Register) response", () => {
+    const request = maskWriteRegister(1, 0x0004, 0x00f2, 0x0025);
+    expect(request.subarray(0, 8).toString("hex")).toBe("0116000400f20025");
+    const values = parseResponseAdu(addCrc(request.subarray(0, 8)), request);
+    expect(values).toEqual([0x00f2, 0x0025]);
+  });
+
+  it("parses FC 23 (Read/Write Multiple Registers) response", () => {
+    const request = readWriteMultipleRegisters(1, 0x0003, 6, 0x000e, [0x00ff, 0x00ff, 0x00ff]);
+    expect(request.subarray(0, 11).toString("hex")).toBe("011700030006000e000306");
+    expect(request.length).toBe(19);
+    const response = addCrc(
+      Buffer.from([0x01, 0x17, 0x0c, 0x00, 0xfe, 0x0a, 0xcd, 0x00, 0x01, 0x00, 0x03, 0x00, 0x0d, 0x00, 0xff])
+    );
+    expect(parseResponseAdu(response, request)).toEqual([0xfe, 0x0acd, 1, 3, 0x0d, 0xff]);
+  });
+
   it("throws ModbusError on exception response", () => {
     const request = readHoldingRegisters(1, 4500, 4);
     // Exception response: slave=1, FC=0x83 (0x03+0x80), exception code=2
@@ -207,3 +232,95 @@ describe("parseResponseAdu", () => {
     expect(() => parseResponseAdu(response, request)).toThrow("CRC");
   });
 });
+
+describe("parseResponse", () => {
+  it("returns typed read responses", () => {
+    const request = readCoils(1, 0, 10);
+    const response = parseResponse(addCrc(Buffer.from([0x01, 0x01, 0x02, 0xab, 0x03])), request);
+    expect(response).toEqual({
+      functionCode: 0x01,
+      slaveId: 1,
+      byteCount: 2,
+      values: [1, 1, 0, 1, 0, 1, 0, 1, 1, 1],
+    });
+  });
+
+  it("returns the echoed fields of write responses", () => {
+    const request = writeMultipleRegisters(1, 0xe005, [150, 144, 139]);
+    const response = parseResponse(addCrc(request.subarray(0, 6)), request);
+    expect(response).toEqual({ functionCode: 0x10, slaveId: 1, address: 0xe005, quantity: 3 });
+    expect(responseValues(response)).toEqual([3]);
+  });
+
+  it("rejects a response from another slave", () => {
+    const request = readHoldingRegisters(1, 0, 1);
+    const response = addCrc(Buffer.from([0x02, 0x03, 0x02, 0x00, 0x01]));
+    try {
+      parseResponse(response, request);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(ModbusResponseMismatchError);
+      expect(err).toMatchObject({ field: "slaveId", expected: 1, actual: 2 });
+    }
+  });
+
+  it("rejects a byte count that does not match the quantity", () => {
+    const request = readHoldingRegisters(1, 0, 2);
+    const response = addCrc(Buffer.from([0x01, 0x03, 0x02, 0x00, 0x01]));
+    expect(() => parseResponse(response, request)).toThrow(ModbusResponseMismatchError);
+    expect(() => parseResponseAdu(response, request)).toThrow("byteCount");
+  });
+
+  it("rejects a mismatched write echo", () => {
+    const request = writeSingleRegister(1, 100, 0x1234);
+    const response = addCrc(Buffer.from([0x01, 0x06, 0x00, 0x65, 0x12, 0x34]));
+    expect(() => parseResponse(response, request)).toThrow("address mismatch");
+  });
+
+  it("rejects a truncated response", () => {
+    const request = readHoldingRegisters(1, 0, 2);
+    const response = addCrc(Buffer.from([0x01, 0x03, 0x04, 0x00, 0x01]));
+    expect(() => parseResponse(response, request)).toThrow(ModbusResponseLengthError);
+  });
+});
+
+describe("Read Device Identification", () => {
+  it("builds an FC 43 / MEI 14 request", () => {
+    const frame = readDeviceIdentification(1, 0x01, 0x00);
+    expect(frame.subarray(0, 5).toString("hex")).toBe("012b0e0100");
+    expect(verifyCrc(frame)).toBe(true);
+    expect(readDeviceIdentification(1)[3]).toBe(0x03);
+  });
+
+  it("parses objects and the more-follows marker", () => {
+    const request = readDeviceIdentification(1, 0x03, 0x00);
+    const response = addCrc(
+      Buffer.concat([
+        Buffer.from([0x01, 0x2b, 0x0e, 0x03, 0x83, 0xff, 0x80, 0x02]),
+        Buffer.from([0x00, 0x04]),
+        Buffer.from("SRNE"),
+        Buffer.from([0x01, 0x02]),
+        Buffer.from("P1"),
+      ])
+    );
+    const parsed = parseDeviceIdentificationAdu(response, request);
+    expect(parsed.conformityLevel).toBe(0x83);
+    expect(parsed.moreFollows).toBe(true);
+    expect(parsed.nextObjectId).toBe(0x80);
+    expect(parsed.objects.map((o) => [o.id, o.value.toString()])).toEqual([
+      [0, "SRNE"],
+      [1, "P1"],
+    ]);
+  });
+
+  it("throws on exceptions and truncated responses", () => {
+    const request = readDeviceIdentification(1);
+    expect(() =>
+      parseDeviceIdentificationAdu(addCrc(Buffer.from([0x01, 0xab, 0x01])), request)
+    ).toThrow("IllegalFunction");
+    const truncated = addCrc(
+      Buffer.from([0x01, 0x2b, 0x0e, 0x03, 0x83, 0x00, 0x00, 0x01, 0x00, 0x10, 0x41])
+    );
+    expect(() => parseDeviceIdentificationAdu(truncated, request)).toThrow("truncated");
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { bitRows, formatRecord, formatRows, registerRows } from "../src/output.js";
+
+describe("registerRows", () => {
+  it("should annotate register values", () => {
+    expect(registerRows(0x0100, [0xfff6, 3], 0.1)).toEqual([
+      { address: 256, addressHex: "0x0100", value: 65526, hex: "0xfff6", signed: -10, scaled: 6552.6 },
+      { address: 257, addressHex: "0x0101", value: 3, hex: "0x0003", signed: 3, scaled: 0.3 },
+    ]);
+    expect(bitRows(7, [1])).toEqual([{ address: 7, addressHex: "0x0007", value: 1 }]);
+  });
+});
+
+describe("formatRows", () => {
+  const rows = [
+    { address: 256, name: "Battery, SOC", value: 87 },
+    { address: 1000, name: 'say "hi"', value: null },
+  ];
+
+  it("should render an aligned table", () => {
+    expect(formatRows(rows, "table")).toBe(
+      [
+        "address  name          value",
+        "-------  ------------  -----",
+        "    256  Battery, SOC     87",
+        "   1000  say \"hi\"",
+      ].join("\n")
+    );
+  });
+
+  it("should render CSV, JSON and NDJSON", () => {
+    expect(formatRows(rows, "csv")).toBe(
+      'address,name,value\n256,"Battery, SOC",87\n1000,"say ""hi""",'
+    );
+    expect(JSON.parse(formatRows(rows, "json"))).toEqual(rows);
+    expect(formatRows(rows, "ndjson").split("\n").map((line) => JSON.parse(line))).toEqual(rows);
+    expect(formatRows(rows, "csv", ["value", "address"])).toBe("value,address\n87,256\n,1000");
+  });
+
+  it("should render single records and nested values", () => {
+    const record = { request: "01 03", rtu: { slaveId: 1 } };
+    expect(JSON.parse(formatRecord(record, "json"))).toEqual(record);
+    expect(formatRecord(record, "csv")).toBe('request,rtu\n01 03,"{""slaveId"":1}"');
+    expect(formatRows([], "ndjson")).toBe("");
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseDataFrame,
+  parseInfoFrame,
+  registerBlocksToMap,
+} from "../src/payloads.js";
+import { V5Frame, decode } from "../src/decoder.js";
+import { SolarmanV5 } from "../src/solarmanv5.js";
+
+const TEST_SERIAL = 3574591882;
+
+/** Wrap a payload in a logger-initiated V5 frame */
+function v5Frame(control: number, payload: Buffer): Buffer {
+  const frame = Buffer.alloc(13 + payload.length);
+  frame[0] = 0xa5;
+  frame.writeUInt16LE(payload.length, 1);
+  frame[3] = 0x10;
+  frame[4] = control;
+  frame[5] = 0x07;
+  frame.writeUInt32LE(TEST_SERIAL, 7);
+  payload.copy(frame, 11);
+  frame[frame.length - 2] = SolarmanV5.calculateV5FrameChecksum(frame);
+  frame[frame.length - 1] = 0x15;
+  return frame;
+}
+
+/** Build a DATA payload with the given register blocks */
+function dataPayload(blocks: [number, number[]][]): Buffer {
+  const preamble = Buffer.alloc(15);
+  preamble[0] = 0x01;
+  preamble.writeUInt16LE(0x0000, 1);
+  preamble.writeUInt32LE(100, 3);
+  preamble.writeUInt32LE(20, 7);
+  preamble.writeUInt32LE(1770000000, 11);
+
+  const parts = [preamble];
+  for (const [start, values] of blocks) {
+    const block = Buffer.alloc(4 + values.length * 2);
+    block.writeUInt16BE(start, 0);
+    block.writeUInt16BE(values.length, 2);
+    values.forEach((v, i) => block.writeUInt16BE(v, 4 + i * 2));
+    parts.push(block);
+  }
+  return Buffer.concat(parts);
+}
+
+describe("parseDataFrame", () => {
+  it("should extract register blocks and timestamps", () => {
+    const frame = v5Frame(
+      0x42,
+      dataPayload([
+        [0x0100, [0x0050, 532, 1250]],
+        [0x0216, [1206, 35]],
+      ])
+    );
+    const data = parseDataFrame(frame);
+
+    expect(data.serial).toBe(TEST_SERIAL);
+    expect(data.sequence).toBe(0x07);
+    expect(data.frameType).toBe(0x01);
+    expect(data.totalWorkTime).toBe(100);
+    expect(data.powerOnTime).toBe(20);
+    expect(data.offsetTime).toBe(1770000000);
+    expect(data.timestamp).toEqual(new Date((1770000000 + 120) * 1000));
+    expect(data.blocks).toEqual([
+      { start: 0x0100, values: [0x0050, 532, 1250] },
+      { start: 0x0216, values: [1206, 35] },
+    ]);
+  });
+
+  it("should ignore trailing padding", () => {
+    const payload = Buffer.concat([
+      dataPayload([[0x0200, [1, 2]]]),
+      Buffer.from([0x00, 0x00]),
+    ]);
+    expect(parseDataFrame(v5Frame(0x42, payload)).blocks).toHaveLength(1);
+  });
+
+  it("should reject truncated register blocks", () => {
+    const payload = dataPayload([[0x0200, [1, 2, 3]]]);
+    expect(() =>
+      parseDataFrame(v5Frame(0x42, payload.subarray(0, payload.length - 2)))
+    ).toThrow("truncated");
+  });
+
+  it("should reject frames that are not DATA frames", () => {
+    expect(() =>
+      parseDataFrame(v5Frame(0x47, dataPayload([])))
+    ).toThrow("Not a DATA frame");
+  });
+
+  it("should be exposed from V5Frame", () => {
+    const frame = v5Frame(0x42, dataPayload([[0x0100, [80]]]));
+    const decoded = new V5Frame(frame.toString("hex"));
+    expect(decoded.dataFrame?.blocks).toEqual([{ start: 0x0100, values: [80] }]);
+  });
+
+  it("should be rendered by decode()", () => {
+    const frame = v5Frame(0x42, dataPayload([[0x0100, [80, 81]]]));
+    const output = decode(frame.toString("hex"));
+    expect(output).toContain("Direction: LoggerToServer");
+    expect(output).toContain("0x0100 (2): 80, 81");
+    expect(output).not.toContain("RTU Payload");
+  });
+
+  it("should dump a truncated payload as hex in decode()", () => {
+    const frame = v5Frame(0x42, dataPayload([[0x0100, [80, 81]]]).subarray(0, 21));
+    expect(() => new V5Frame(frame.toString("hex")).dataFrame).toThrow();
+    const output = decode(frame.toString("hex"));
+    expect(output).toContain("Control Code: LoggerResponse");
+    expect(output).toContain(`Payload: ${frame.subarray(11, -2).toString("hex")}`);
+    expect(output).not.toContain("Register blocks");
+  });
+});
+
+/** Build an INFO payload with the given signal strength and text fields */
+function infoPayload(signal: number, fields: [string, number][]): Buffer {
+  const parts = [Buffer.alloc(15), Buffer.from([signal])];
+  for (const [text, width] of fields) {
+    const field = Buffer.alloc(width);
+    field.write(text, "ascii");
+    parts.push(field);
+  }
+  return Buffer.concat(parts);
+}
+
+describe("parseInfoFrame", () => {
+  it("should extract firmware, network and signal strength", () => {
+    const frame = v5Frame(
+      0x43,
+      infoPayload(100, [
+        ["LSW5_01_2421_SS_00_00.00.00.06", 40],
+        ["192.168.4.255", 16],
+        ["AA:BB:CC:DD:EE:FF", 18],
+        ["LopezSanchez_EXT", 32],
+      ])
+    );
+    const info = parseInfoFrame(frame);
+
+    expect(info.serial).toBe(TEST_SERIAL);
+    expect(info.firmware).toBe("LSW5_01_2421_SS_00_00.00.00.06");
+    expect(info.ipAddress).toBe("192.168.4.255");
+    expect(info.macAddress).toBe("AA:BB:CC:DD:EE:FF");
+    expect(info.ssid).toBe("LopezSanchez_EXT");
+    expect(info.signalStrength).toBe(100);
+    expect(info.fields).toHaveLength(4);
+  });
+
+  it("should recognise fields regardless of order", () => {
+    const frame = v5Frame(
+      0x43,
+      infoPayload(57, [
+        ["HomeWiFi", 32],
+        ["10.0.0.300", 16],
+        ["10.0.0.30", 16],
+        ["LSW3_15_FFFF_1.0.57", 40],
+      ])
+    );
+    const info = parseInfoFrame(frame);
+
+    expect(info.firmware).toBe("LSW3_15_FFFF_1.0.57");
+    expect(info.ipAddress).toBe("10.0.0.30");
+    expect(info.macAddress).toBeNull();
+    expect(info.ssid).toBe("HomeWiFi");
+    expect(info.signalStrength).toBe(57);
+  });
+
+  it("should reject frames that are not INFO frames", () => {
+    expect(() => parseInfoFrame(v5Frame(0x42, infoPayload(1, [])))).toThrow(
+      "Not an INFO frame"
+    );
+  });
+
+  it("should be exposed from V5Frame", () => {
+    const frame = v5Frame(0x43, infoPayload(80, [["LSW5_01_2421_SS", 20]]));
+    const decoded = new V5Frame(frame.toString("hex"));
+    expect(decoded.controlCodeName).toBe("LoggerInfo");
+    expect(decoded.loggerInfo?.firmware).toBe("LSW5_01_2421_SS");
+    expect(decoded.dataFrame).toBeNull();
+  });
+});
+
+describe("registerBlocksToMap", () => {
+  it("should flatten blocks into address/value pairs", () => {
+    const registers = registerBlocksToMap([
+      { start: 0x0100, values: [1, 2] },
+      { start: 0x0216, values: [1206] },
+    ]);
+    expect([...registers.entries()]).toEqual([
+      [0x0100, 1],
+      [0x0101, 2],
+      [0x0216, 1206],
+    ]);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import { analyzePcap, parsePcap, formatTimeline, PcapError } from "../src/pcap.js";
+import { SolarmanV5 } from "../src/solarmanv5.js";
+import { addCrc, readHoldingRegisters } from "../src/modbus.js";
+
+const TEST_SERIAL = 2612749371;
+const CLIENT = [192, 168, 1, 2];
+const LOGGER = [192, 168, 1, 100];
+
+/** Wrap a payload in a V5 frame */
+function v5Frame(control: number, seq: number, payload: Buffer): Buffer {
+  const frame = Buffer.alloc(13 + payload.length);
+  frame[0] = 0xa5;
+  frame.writeUInt16LE(payload.length, 1);
+  frame[3] = 0x10;
+  frame[4] = control;
+  frame[5] = seq;
+  frame.writeUInt32LE(TEST_SERIAL, 7);
+  payload.copy(frame, 11);
+  frame[frame.length - 2] = SolarmanV5.calculateV5FrameChecksum(frame);
+  frame[frame.length - 1] = 0x15;
+  return frame;
+}
+
+function modbusRequest(seq: number): Buffer {
+  const payload = Buffer.alloc(15);
+  payload[0] = 0x02;
+  return v5Frame(0x45, seq, Buffer.concat([payload, readHoldingRegisters(1, 0x0100, 1)]));
+}
+
+function modbusResponse(seq: number, value: number): Buffer {
+  const payload = Buffer.alloc(14);
+  payload[0] = 0x02;
+  payload[1] = 0x01;
+  const rtu = addCrc(Buffer.from([0x01, 0x03, 0x02, value >> 8, value & 0xff]));
+  return v5Frame(0x15, seq, Buffer.concat([payload, rtu]));
+}
+
+/** Ethernet + IPv4 + TCP packet */
+function tcpPacket(
+  src: number[],
+  srcPort: number,
+  dst: number[],
+  dstPort: number,
+  seq: number,
+  payload: Buffer,
+  flags = 0x18
+): Buffer {
+  const ethernet = Buffer.alloc(14);
+  ethernet.writeUInt16BE(0x0800, 12);
+  const ip = Buffer.alloc(20);
+  ip[0] = 0x45;
+  ip.writeUInt16BE(40 + payload.length, 2);
+  ip[8] = 64;
+  ip[9] = 6;
+  Buffer.from(src).copy(ip, 12);
+  Buffer.from(dst).copy(ip, 16);
+  const tcp = Buffer.alloc(20);
+  tcp.writeUInt16BE(srcPort, 0);
+  tcp.writeUInt16BE(dstPort, 2);
+  tcp.writeUInt32BE(seq, 4);
+  tcp[12] = 5 << 4;
+  tcp[13] = flags;
+  return Buffer.concat([ethernet, ip, tcp, payload]);
+}
+
+function pcap(packets: [number, Buffer][]): Buffer {
+  const header = Buffer.alloc(24);
+  header.writeUInt32LE(0xa1b2c3d4, 0);
+  header.writeUInt16LE(2, 4);
+  header.writeUInt16LE(4, 6);
+  header.writeUInt32LE(65535, 16);
+  header.writeUInt32LE(1, 20);
+  const records = packets.map(([ms, data]) => {
+    const record = Buffer.alloc(16);
+    record.writeUInt32LE(Math.floor(ms / 1000), 0);
+    record.writeUInt32LE((ms % 1000) * 1000, 4);
+    record.writeUInt32LE(data.length, 8);
+    record.writeUInt32LE(data.length, 12);
+    return Buffer.concat([record, data]);
+  });
+  return Buffer.concat([header, ...records]);
+}
+
+function pcapng(packets: [number, Buffer][]): Buffer {
+  const block = (type: number, body: Buffer) => {
+    const length = 12 + body.length + ((4 - (body.length % 4)) % 4);
+    const buffer = Buffer.alloc(length);
+    buffer.writeUInt32LE(type, 0);
+    buffer.writeUInt32LE(length, 4);
+    body.copy(buffer, 8);
+    buffer.writeUInt32LE(length, length - 4);
+    return buffer;
+  };
+  const shb = Buffer.alloc(16);
+  shb.writeUInt32LE(0x1a2b3c4d, 0);
+  shb.writeUInt16LE(1, 4);
+  shb.writeBigInt64LE(-1n, 8);
+  const idb = Buffer.alloc(8);
+  idb.writeUInt16LE(1, 0);
+  const blocks = [block(0x0a0d0d0a, shb), block(1, idb)];
+  for (const [ms, data] of packets) {
+    const epb = Buffer.alloc(20 + data.length);
+    const micros = BigInt(ms) * 1000n;
+    epb.writeUInt32LE(Number(micros >> 32n), 4);
+    epb.writeUInt32LE(Number(micros & 0xffffffffn), 8);
+    epb.writeUInt32LE(data.length, 12);
+    epb.writeUInt32LE(data.length, 16);
+    data.copy(epb, 20);
+    blocks.push(block(6, epb));
+  }
+  return Buffer.concat(blocks);
+}
+
+const T0 = 1770000000000;
+
+/** Request split over two segments, sent out of order and retransmitted */
+function session(): [number, Buffer][] {
+  const request = modbusRequest(0x10);
+  const response = modbusResponse(0x10, 42);
+  const heartbeat = v5Frame(0x47, 0x01, Buffer.from([0x00]));
+  const first = request.subarray(0, 10);
+  const rest = request.subarray(10);
+  return [
+    [T0, tcpPacket(CLIENT, 50000, LOGGER, 8899, 999, Buffer.alloc(0), 0x02)],
+    [T0 + 1, tcpPacket(CLIENT, 50000, LOGGER, 8899, 1000 + first.length, rest)],
+    [T0 + 2, tcpPacket(CLIENT, 50000, LOGGER, 8899, 1000, first)],
+    [T0 + 3, tcpPacket(CLIENT, 50000, LOGGER, 8899, 1000, first)],
+    [T0 + 120, tcpPacket(LOGGER, 8899, CLIENT, 50000, 5000, Buffer.concat([heartbeat, response]))],
+    [T0 + 130, tcpPacket(CLIENT, 50000, LOGGER, 8899, 2000, Buffer.from("not v5"))],
+  ];
+}
+
+describe("parsePcap", () => {
+  it("should read pcap and pcapng files", () => {
+    const packets = session();
+    for (const file of [pcap(packets), pcapng(packets)]) {
+      const parsed = parsePcap(file);
+      expect(parsed).toHaveLength(packets.length);
+      expect(parsed[1].timestamp.getTime()).toBe(T0 + 1);
+      expect(parsed[1].linkType).toBe(1);
+      expect(parsed[1].data.equals(packets[1][1])).toBe(true);
+    }
+  });
+
+  it("should reject other files", () => {
+    expect(() => parsePcap(Buffer.from("hello world"))).toThrow(PcapError);
+  });
+});
+
+describe("analyzePcap", () => {
+  it("should reassemble streams and pair requests with responses", () => {
+    const analysis = analyzePcap(pcap(session()));
+
+    expect(analysis.entries.map((e) => e.decoded.controlCodeName)).toEqual([
+      "V5Request",
+      "LoggerPing",
+      "V5Response",
+    ]);
+    const [request, heartbeat, response] = analysis.entries;
+    expect(request.timestamp.getTime()).toBe(T0 + 2);
+    expect(request.source).toBe("192.168.1.2:50000");
+    expect(request.destination).toBe("192.168.1.100:8899");
+    expect(request.pair).toBe(2);
+    expect(response.pair).toBe(0);
+    expect(response.latency).toBe(118);
+    expect(heartbeat.pair).toBeNull();
+    expect(analysis.connections).toEqual(["192.168.1.100:8899 <-> 192.168.1.2:50000"]);
+    expect(analysis.discardedBytes).toBe(6);
+
+    const timeline = formatTimeline(analysis);
+    expect(timeline).toContain("V5Request seq=0x10 slave 1 FC 3 addr 0x0100 qty 1");
+    expect(timeline).toContain("(reply to #0, 118 ms)");
+    expect(timeline).toContain("3 frame(s) in 1 connection(s)");
+  });
+
+  it("should pick up V5 streams on other ports and pair time responses", () => {
+    const heartbeat = v5Frame(0x47, 0x05, Buffer.from([0x00]));
+    const timeResponse = SolarmanV5.timeResponseFrame(heartbeat);
+    const analysis = analyzePcap(
+      pcapng([
+        [T0, tcpPacket(LOGGER, 40000, CLIENT, 10000, 1, heartbeat)],
+        [T0 + 5, tcpPacket(CLIENT, 10000, LOGGER, 40000, 1, timeResponse)],
+        [T0 + 6, tcpPacket(CLIENT, 443, LOGGER, 40001, 1, Buffer.from("tls"))],
+      ])
+    );
+    expect(analysis.entries.map((e) => e.decoded.controlCodeName)).toEqual([
+      "LoggerPing",
+      "PingResponse",
+    ]);
+    expect(analysis.entries[1].pair).toBe(0);
+    expect(analysis.entries[1].latency).toBe(5);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { planReads } from "../src/planner.js";
+
+describe("planReads", () => {
+  it("should merge adjacent registers and ignore duplicates and order", () => {
+    expect(planReads([0x0103, 0x0100, 0x0101, 0x0102, 0x0101])).toEqual([
+      { start: 0x0100, quantity: 4 },
+    ]);
+  });
+
+  it("should keep separate blocks for non-adjacent registers by default", () => {
+    expect(planReads([0x0100, 0x0102])).toEqual([
+      { start: 0x0100, quantity: 1 },
+      { start: 0x0102, quantity: 1 },
+    ]);
+  });
+
+  it("should bridge gaps up to maxGap", () => {
+    expect(planReads([0x0200, 0x0203, 0x0210], { maxGap: 2 })).toEqual([
+      { start: 0x0200, quantity: 4 },
+      { start: 0x0210, quantity: 1 },
+    ]);
+  });
+
+  it("should split at maxQuantity", () => {
+    const addresses = Array.from({ length: 40 }, (_, i) => 0x0200 + i);
+    expect(planReads(addresses, { maxQuantity: 16 })).toEqual([
+      { start: 0x0200, quantity: 16 },
+      { start: 0x0210, quantity: 16 },
+      { start: 0x0220, quantity: 8 },
+    ]);
+  });
+
+  it("should never read holes", () => {
+    const addresses = [0x0108, 0x0109, 0x0115, 0x0116];
+    const holes = [{ start: 0x010a, end: 0x0114 }];
+    expect(planReads(addresses, { maxGap: 20, holes })).toEqual([
+      { start: 0x0108, quantity: 2 },
+      { start: 0x0115, quantity: 2 },
+    ]);
+    // Wanted registers inside a hole are dropped
+    expect(planReads([0x0109, 0x010a], { holes })).toEqual([
+      { start: 0x0109, quantity: 1 },
+    ]);
+  });
+
+  it("should return an empty plan for no registers", () => {
+    expect(planReads([])).toEqual([]);
+  });
+
+  it("should reject invalid limits", () => {
+    expect(() => planReads([1], { maxQuantity: 0 })).toThrow("Invalid maxQuantity");
+    expect(() => planReads([1], { maxGap: -1 })).toThrow("Invalid maxGap");
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  Poller,
+  type PollChangeEvent,
+  type PollSample,
+  type PollerClient,
+} from "../src/poller.js";
+import { NoSocketAvailableError } from "../src/solarmanv5.js";
+import type { RegisterMap } from "../src/registermap.js";
+
+interface StubClient extends PollerClient {
+  autoReconnect: boolean;
+  isConnected: boolean;
+  /** Number of upcoming reads that fail */
+  failures: number;
+  /** Number of reads so far */
+  reads: number;
+}
+
+/** Minimal stand-in for SolarmanV5 that serves reads from a register bank */
+function stubClient(bank: Map<number, number>): StubClient {
+  const client: StubClient = {
+    autoReconnect: false,
+    isConnected: true,
+    failures: 0,
+    reads: 0,
+    reconnect: vi.fn(async () => {}),
+    async readRegisters(addresses: number[]) {
+      client.reads++;
+      if (client.failures > 0) {
+        client.failures--;
+        throw new NoSocketAvailableError("Connection already closed.");
+      }
+      return new Map(addresses.map((a) => [a, bank.get(a) ?? 0]));
+    },
+    async readMap(map: RegisterMap) {
+      const registers = await client.readRegisters(map.fields.map((f) => f.address));
+      const { decodeRegisterMap } = await import("../src/registermap.js");
+      return decodeRegisterMap(map, registers);
+    },
+  };
+  return client;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("Poller", () => {
+  it("should validate groups", () => {
+    const client = stubClient(new Map());
+    expect(() => new Poller(client, [{ name: "a", interval: 0, addresses: [1] }])).toThrow(
+      "Invalid interval"
+    );
+    expect(() => new Poller(client, [{ name: "a", interval: 10 }])).toThrow(
+      "needs a map or addresses"
+    );
+    expect(
+      () =>
+        new Poller(client, [
+          { name: "a", interval: 10, addresses: [1] },
+          { name: "a", interval: 10, addresses: [2] },
+        ])
+    ).toThrow("Duplicate poll group");
+  });
+
+  it("should poll each group at its own interval and emit samples", async () => {
+    vi.useFakeTimers();
+    const stub = stubClient(new Map([[0x0100, 5], [0x0200, 7]]));
+    const poller = new Poller(stub, [
+      { name: "fast", interval: 1000, addresses: [0x0100] },
+      { name: "slow", interval: 5000, addresses: [0x0200] },
+    ]);
+    const samples: PollSample[] = [];
+    poller.on("sample", (s) => samples.push(s));
+
+    poller.start();
+    await vi.advanceTimersByTimeAsync(5500);
+    poller.stop();
+
+    const fast = samples.filter((s) => s.group === "fast");
+    const slow = samples.filter((s) => s.group === "slow");
+    expect(fast).toHaveLength(6);
+    expect(slow).toHaveLength(2);
+    expect(fast[0].registers.get(0x0100)).toBe(5);
+    expect(fast[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it("should emit change events with decoded values for map groups", async () => {
+    const bank = new Map([[0x0101, 532]]);
+    const stub = stubClient(bank);
+    const poller = new Poller(stub, [
+      {
+        name: "battery",
+        interval: 1000,
+        map: { fields: [{ name: "voltage", address: 0x0101, scale: 0.1 }] },
+      },
+    ]);
+    const changes: PollChangeEvent[] = [];
+    poller.on("change", (c) => changes.push(c));
+
+    const first = await poller.poll("battery");
+    expect(first.values?.voltage.value).toBeCloseTo(53.2);
+    expect(first.registers.get(0x0101)).toBe(532);
+
+    await poller.poll("battery");
+    expect(changes).toHaveLength(0);
+
+    bank.set(0x0101, 540);
+    await poller.poll("battery");
+    expect(changes).toHaveLength(1);
+    expect(changes[0].group).toBe("battery");
+    expect(changes[0].changes[0].key).toBe("voltage");
+    expect(changes[0].changes[0].previous).toBeCloseTo(53.2);
+    expect(changes[0].changes[0].current).toBeCloseTo(54);
+  });
+
+  it("should key register changes by hex address", async () => {
+    const bank = new Map([[0x0222, 100]]);
+    const poller = new Poller(stubClient(bank), [
+      { name: "load", interval: 1000, addresses: [0x0222] },
+    ]);
+    const changes: PollChangeEvent[] = [];
+    poller.on("change", (c) => changes.push(c));
+
+    await poller.poll("load");
+    bank.set(0x0222, 250);
+    await poller.poll("load");
+    expect(changes[0].changes).toEqual([{ key: "0x0222", previous: 100, current: 250 }]);
+  });
+
+  it("should back off after errors and recover", async () => {
+    vi.useFakeTimers();
+    const stub = stubClient(new Map([[1, 1]]));
+    stub.failures = 2;
+    const poller = new Poller(
+      stub,
+      [{ name: "g", interval: 1000, addresses: [1] }],
+      { maxBackoff: 3000 }
+    );
+    const errors: string[] = [];
+    const samples: PollSample[] = [];
+    poller.on("error", (_err, group) => errors.push(group));
+    poller.on("sample", (s) => samples.push(s));
+
+    poller.start();
+    await vi.advanceTimersByTimeAsync(0); // first poll fails, retry in 2000ms
+    expect(errors).toEqual(["g"]);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(stub.reads).toBe(1);
+    await vi.advanceTimersByTimeAsync(1); // second poll fails, retry capped at 3000ms
+    expect(errors).toEqual(["g", "g"]);
+    await vi.advanceTimersByTimeAsync(3000); // succeeds
+    expect(samples).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1000); // back to the normal interval
+    expect(samples).toHaveLength(2);
+    poller.stop();
+  });
+
+  it("should keep polling after an error without an error listener", async () => {
+    vi.useFakeTimers();
+    const stub = stubClient(new Map([[1, 1]]));
+    stub.failures = 1;
+    const poller = new Poller(stub, [{ name: "g", interval: 1000, addresses: [1] }]);
+    const samples: PollSample[] = [];
+    poller.on("sample", (s) => samples.push(s));
+
+    poller.start();
+    await vi.advanceTimersByTimeAsync(2000); // first poll fails, retry after 2000ms
+    expect(stub.reads).toBe(2);
+    expect(samples).toHaveLength(1);
+    poller.stop();
+  });
+
+  it("should not treat a throwing listener as a failed poll", async () => {
+    vi.useFakeTimers();
+    const stub = stubClient(new Map([[1, 1]]));
+    stub.autoReconnect = true;
+    stub.isConnected = false;
+    const logged: string[] = [];
+    const logger = { debug() {}, info() {}, warn() {}, error: (message: string) => logged.push(message) };
+    const poller = new Poller(stub, [{ name: "g", interval: 1000, addresses: [1] }], { logger });
+    const errors: Error[] = [];
+    poller.on("error", (err) => errors.push(err));
+    poller.on("sample", () => {
+      throw new NoSocketAvailableError("Listener lost its own connection");
+    });
+
+    poller.start();
+    await vi.advanceTimersByTimeAsync(1000); // polls at 0 and 1000ms, no backoff
+    poller.stop();
+    expect(stub.reads).toBe(2);
+    expect(stub.reconnect).not.toHaveBeenCalled();
+    expect(errors).toEqual([]);
+    expect(logged).toEqual([
+      "[g] Sample listener failed: Listener lost its own connection",
+      "[g] Sample listener failed: Listener lost its own connection",
+    ]);
+  });
+
+  it("should reconnect through the client when the connection is gone", async () => {
+    const stub = stubClient(new Map());
+    stub.autoReconnect = true;
+    stub.isConnected = false;
+    stub.failures = 1;
+    vi.useFakeTimers();
+    const poller = new Poller(stub, [{ name: "g", interval: 1000, addresses: [1] }]);
+    poller.on("error", () => {});
+
+    poller.start();
+    await vi.advanceTimersByTimeAsync(0);
+    poller.stop();
+    expect(stub.reconnect).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { SRNE_SPH10048P, PROFILES } from "../src/profiles.js";
+import {
+  parseRegisterMap,
+  registerMapBlocks,
+  decodeRegisterMap,
+} from "../src/registermap.js";
+
+describe("SRNE_SPH10048P profile", () => {
+  it("should be a valid register map", () => {
+    expect(parseRegisterMap(SRNE_SPH10048P)).toEqual(SRNE_SPH10048P);
+    expect(PROFILES["srne-sph10048p"]).toBe(SRNE_SPH10048P);
+  });
+
+  it("should never read more than 16 registers or touch 0x010A-0x0114", () => {
+    for (const block of registerMapBlocks(SRNE_SPH10048P)) {
+      expect(block.count).toBeLessThanOrEqual(16);
+      const end = block.start + block.count - 1;
+      expect(end < 0x010a || block.start > 0x0114).toBe(true);
+    }
+  });
+
+  it("should read the whole profile in four requests", () => {
+    expect(registerMapBlocks(SRNE_SPH10048P)).toEqual([
+      { table: "holding", start: 0x0100, count: 10 },
+      { table: "holding", start: 0x0212, count: 16 },
+      { table: "holding", start: 0x0222, count: 11 },
+      { table: "holding", start: 0x0232, count: 3 },
+    ]);
+  });
+
+  it("should decode values observed on a real inverter", () => {
+    const registers = new Map<number, number>([
+      [0x0100, 0x0064],
+      [0x0101, 532],
+      [0x0103, 0x1a19],
+      [0x0215, 5996],
+      [0x0216, 1206],
+      [0x0220, 640],
+    ]);
+    const result = decodeRegisterMap(SRNE_SPH10048P, registers);
+
+    expect(result.batterySoc).toMatchObject({ value: 100, unit: "%" });
+    expect(result.batteryVoltage.value).toBeCloseTo(53.2);
+    expect(result.controllerTemperature.value).toBe(26);
+    expect(result.batteryTemperature.value).toBe(25);
+    expect(result.acOutputFrequencyR.value).toBeCloseTo(59.96);
+    expect(result.acVoltageR).toMatchObject({ unit: "V" });
+    expect(result.acVoltageR.value).toBeCloseTo(120.6);
+    expect(result.loadPowerL1).toMatchObject({ value: 640, unit: "W" });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  parseRegisterMap,
+  loadRegisterMap,
+  decodeRegisterMap,
+  decodeField,
+  registerMapBlocks,
+  RegisterMapError,
+  type RegisterMap,
+} from "../src/registermap.js";
+
+const MAP: RegisterMap = {
+  name: "test",
+  fields: [
+    { name: "soc", address: 0x0100, bitmask: 0x00ff, unit: "%" },
+    { name: "batteryVoltage", address: 0x0101, scale: 0.1, unit: "V" },
+    { name: "controllerTemp", address: 0x0103, bitmask: 0xff00, bitshift: 8, unit: "°C" },
+    { name: "power", address: 0x0210, type: "int32", unit: "W" },
+    { name: "mode", address: 0x0212, enum: { 0: "Standby", 1: "Grid", 2: "Battery" } },
+    { name: "model", address: 0x0300, type: "string", count: 3 },
+    { name: "inputReg", address: 0x0010, table: "input" },
+  ],
+};
+
+describe("decodeField", () => {
+  it("should mask and shift before scaling", () => {
+    expect(
+      decodeField({ name: "t", address: 0, bitmask: 0xff00, bitshift: 8, scale: 0.5 }, [0x1a05])
+        .value
+    ).toBe(13);
+  });
+
+  it("should decode signed 32-bit values", () => {
+    expect(decodeField({ name: "p", address: 0, type: "int32" }, [0xffff, 0xfc18]).value).toBe(-1000);
+  });
+
+  it("should honour an explicit signed flag", () => {
+    expect(decodeField({ name: "c", address: 0, signed: true, scale: 0.01 }, [0xff9c]).value)
+      .toBeCloseTo(-1);
+  });
+
+  it("should label enum values", () => {
+    const field = { name: "m", address: 0, enum: { 1: "Grid" } };
+    expect(decodeField(field, [1])).toEqual({ value: 1, label: "Grid", unit: undefined, raw: [1] });
+    expect(decodeField(field, [7]).label).toBeUndefined();
+    const scaled = { name: "m", address: 0, scale: 0.1, enum: { 10: "Fault" } };
+    expect(decodeField(scaled, [10]).label).toBe("Fault");
+  });
+
+  it("should decode strings", () => {
+    expect(
+      decodeField({ name: "s", address: 0, type: "string", count: 3 }, [0x5350, 0x4831, 0x0000]).value
+    ).toBe("SPH1");
+  });
+});
+
+describe("decodeRegisterMap", () => {
+  it("should decode every field that has all of its registers", () => {
+    const registers = new Map<number, number>([
+      [0x0100, 0x0150],
+      [0x0101, 532],
+      [0x0103, 0x1a19],
+      [0x0210, 0x0000],
+      [0x0211, 0x1388],
+      [0x0212, 2],
+      [0x0300, 0x5350],
+    ]);
+    const result = decodeRegisterMap(MAP, registers);
+
+    expect(result.soc).toMatchObject({ value: 0x50, unit: "%" });
+    expect(result.batteryVoltage.value).toBeCloseTo(53.2);
+    expect(result.controllerTemp.value).toBe(26);
+    expect(result.power.value).toBe(5000);
+    expect(result.mode).toMatchObject({ value: 2, label: "Battery" });
+    expect(result.model).toBeUndefined();
+  });
+
+  it("should look up registers per table", () => {
+    const result = decodeRegisterMap(MAP, {
+      input: new Map([[0x0010, 42]]),
+    });
+    expect(Object.keys(result)).toEqual(["inputReg"]);
+  });
+});
+
+describe("registerMapBlocks", () => {
+  it("should merge adjacent and overlapping fields per table", () => {
+    expect(registerMapBlocks(MAP)).toEqual([
+      { table: "holding", start: 0x0100, count: 2 },
+      { table: "holding", start: 0x0103, count: 1 },
+      { table: "holding", start: 0x0210, count: 3 },
+      { table: "holding", start: 0x0300, count: 3 },
+      { table: "input", start: 0x0010, count: 1 },
+    ]);
+  });
+});
+
+describe("registerMapBlocks with maxRegistersPerRequest", () => {
+  it("should split long ranges", () => {
+    const fields = Array.from({ length: 20 }, (_, i) => ({
+      name: `r${i}`,
+      address: 0x0200 + i,
+    }));
+    expect(registerMapBlocks({ maxRegistersPerRequest: 8, fields })).toEqual([
+      { table: "holding", start: 0x0200, count: 8 },
+      { table: "holding", start: 0x0208, count: 8 },
+      { table: "holding", start: 0x0210, count: 4 },
+    ]);
+  });
+});
+
+describe("parseRegisterMap", () => {
+  it("should parse read planning options", () => {
+    const map = parseRegisterMap({
+      maxRegistersPerRequest: 16,
+      maxGap: "4",
+      holes: [{ start: "0x010A", end: "0x0114" }],
+      fields: [],
+    });
+    expect(map).toEqual({
+      maxRegistersPerRequest: 16,
+      maxGap: 4,
+      holes: [{ start: 0x010a, end: 0x0114 }],
+      fields: [],
+    });
+  });
+
+  it("should accept hex strings and string enum keys", () => {
+    const map = parseRegisterMap({
+      name: "x",
+      fields: [
+        { name: "a", address: "0x0101", scale: 0.1, bitmask: "0xff", enum: { "1": "On" } },
+      ],
+    });
+    expect(map.fields[0]).toEqual({
+      name: "a",
+      address: 0x0101,
+      scale: 0.1,
+      bitmask: 0xff,
+      enum: { 1: "On" },
+    });
+  });
+
+  it("should reject invalid maps", () => {
+    expect(() => parseRegisterMap({})).toThrow(RegisterMapError);
+    expect(() => parseRegisterMap({ fields: [{ address: 1 }] })).toThrow("has no name");
+    expect(() => parseRegisterMap({ fields: [{ name: "a", address: "zz" }] })).toThrow(
+      "Invalid address"
+    );
+    expect(() => parseRegisterMap({ fields: [{ name: "a", address: 1, type: "float" }] }))
+      .toThrow("Invalid type");
+    expect(() => parseRegisterMap({ fields: [{ name: "a", address: 1, type: "string" }] }))
+      .toThrow("needs a count");
+    expect(() => parseRegisterMap({ fields: [{ name: "a", address: 1, signed: "false" }] }))
+      .toThrow(`Invalid signed of field "a": "false"`);
+    expect(() =>
+      parseRegisterMap({ fields: [{ name: "a", address: 1 }, { name: "a", address: 2 }] })
+    ).toThrow("Duplicate field name");
+  });
+});
+
+describe("loadRegisterMap", () => {
+  it("should load JSON and YAML files", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "solarman-map-"));
+    try {
+      const jsonPath = join(dir, "map.json");
+      await writeFile(
+        jsonPath,
+        JSON.stringify({ fields: [{ name: "soc", address: "0x0100", bitmask: 255 }] })
+      );
+      const yamlPath = join(dir, "map.yaml");
+      await writeFile(
+        yamlPath,
+        [
+          "name: srne",
+          "fields:",
+          "  - name: batteryVoltage",
+          "    address: 0x0101",
+          "    scale: 0.1",
+          "    unit: V",
+        ].join("\n")
+      );
+
+      expect((await loadRegisterMap(jsonPath)).fields[0].address).toBe(0x0100);
+      const yamlMap = await loadRegisterMap(yamlPath);
+      expect(yamlMap.name).toBe("srne");
+      expect(yamlMap.fields[0]).toEqual({
+        name: "batteryVoltage",
+        address: 0x0101,
+        scale: 0.1,
+        unit: "V",
+      });
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { SolarmanV5, V5FrameError } from "../src/solarmanv5.js";
+import { CaptureReplayServer, ReplayTransport } from "../src/replay.js";
+import type { CaptureEntry } from "../src/capture.js";
+import { addCrc, readHoldingRegisters } from "../src/modbus.js";
+
+const TEST_SERIAL = 2612749371;
+const TEST_PORT = 18931;
+
+/** Build a V5 frame with a valid checksum */
+function v5Frame(control: number, seq: number, payload: Buffer): Buffer {
+  const frame = Buffer.alloc(13 + payload.length);
+  frame[0] = 0xa5;
+  frame.writeUInt16LE(payload.length, 1);
+  frame[3] = 0x10;
+  frame[4] = control;
+  frame[5] = seq;
+  frame.writeUInt32LE(TEST_SERIAL, 7);
+  payload.copy(frame, 11);
+  frame[frame.length - 2] = SolarmanV5.calculateV5FrameChecksum(frame);
+  frame[frame.length - 1] = 0x15;
+  return frame;
+}
+
+function request(seq: number, mbFrame: Buffer): CaptureEntry {
+  const payload = Buffer.concat([Buffer.alloc(15), mbFrame]);
+  payload[0] = 0x02;
+  return { timestamp: new Date(), direction: "sent", frame: v5Frame(0x45, seq, payload) };
+}
+
+function response(seq: number, mbFrame: Buffer, status = 0x01): CaptureEntry {
+  const payload = Buffer.concat([Buffer.alloc(14), mbFrame]);
+  payload[0] = 0x02;
+  payload[1] = status;
+  return { timestamp: new Date(), direction: "received", frame: v5Frame(0x15, seq, payload) };
+}
+
+describe("CaptureReplayServer", () => {
+  let replay: CaptureReplayServer | null = null;
+  let modbus: SolarmanV5 | null = null;
+
+  afterEach(async () => {
+    await modbus?.disconnect();
+    await replay?.close();
+    modbus = null;
+    replay = null;
+  });
+
+  async function start(capture: CaptureEntry[]): Promise<SolarmanV5> {
+    replay = new CaptureReplayServer({ capture, port: TEST_PORT });
+    await replay.listen();
+    modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, { port: TEST_PORT, socketTimeout: 1 });
+    await modbus.connect();
+    return modbus;
+  }
+
+  it("should replay responses with the live sequence number", async () => {
+    const client = await start([
+      request(0x10, readHoldingRegisters(1, 0x0100, 2)),
+      response(0x10, addCrc(Buffer.from([0x01, 0x03, 0x04, 0x00, 0x64, 0x02, 0x14]))),
+      request(0x11, readHoldingRegisters(1, 0x0200, 1)),
+      response(0x11, addCrc(Buffer.from([0x01, 0x03, 0x02, 0x00, 0x07]))),
+    ]);
+    let ended = false;
+    replay!.on("end", () => (ended = true));
+
+    expect(await client.readHoldingRegisters(0x0100, 2)).toEqual([100, 532]);
+    expect(await client.readHoldingRegisters(0x0200, 1)).toEqual([7]);
+    expect(ended).toBe(true);
+    expect(replay!.remaining).toBe(0);
+  });
+
+  it("should reproduce decoder errors from recorded responses", async () => {
+    const client = await start([
+      request(0x20, readHoldingRegisters(1, 0x0100, 1)),
+      response(0x20, Buffer.alloc(0)),
+    ]);
+    await expect(client.readHoldingRegisters(0x0100, 1)).rejects.toThrow(V5FrameError);
+  });
+
+  it("should report requests that differ from the capture", async () => {
+    const client = await start([
+      request(0x30, readHoldingRegisters(1, 0x0100, 1)),
+      response(0x30, addCrc(Buffer.from([0x01, 0x03, 0x02, 0x00, 0x01]))),
+    ]);
+    const mismatches: Buffer[] = [];
+    replay!.on("mismatch", (_expected, actual) => mismatches.push(actual));
+
+    await client.readHoldingRegisters(0x0101, 1);
+    expect(mismatches).toHaveLength(1);
+    expect(mismatches[0].readUInt16BE(28)).toBe(0x0101);
+  });
+
+  it("should keep recorded checksum errors", () => {
+    const recorded = response(0x40, Buffer.from([0x01])).frame;
+    recorded[recorded.length - 2] ^= 0xff;
+    const live = request(0x05, readHoldingRegisters(1, 0, 1)).frame;
+    const answer = CaptureReplayServer.answer(recorded, live);
+    expect(answer[5]).toBe(0x05);
+    expect(answer[answer.length - 2]).not.toBe(SolarmanV5.calculateV5FrameChecksum(answer));
+    recorded[recorded.length - 2] ^= 0xff;
+    const fixed = CaptureReplayServer.answer(recorded, live);
+    expect(fixed[fixed.length - 2]).toBe(SolarmanV5.calculateV5FrameChecksum(fixed));
+  });
+});
+
+describe("ReplayTransport", () => {
+  it("should answer a client in-process from a capture", async () => {
+    const mismatches: Buffer[] = [];
+    const transport = new ReplayTransport(
+      [
+        request(0x50, readHoldingRegisters(1, 0x0100, 1)),
+        response(0x50, addCrc(Buffer.from([0x01, 0x03, 0x02, 0x00, 0x2a]))),
+        request(0x51, readHoldingRegisters(1, 0x0100, 1)),
+        response(0x51, Buffer.alloc(0)),
+      ],
+      { onMismatch: (_expected, actual) => mismatches.push(actual) }
+    );
+    const client = new SolarmanV5("replay", TEST_SERIAL, { transport });
+    await client.connect();
+
+    expect(await client.readHoldingRegisters(0x0100, 1)).toEqual([42]);
+    await expect(client.readHoldingRegisters(0x0100, 1)).rejects.toThrow(V5FrameError);
+    expect(transport.remaining).toBe(0);
+    expect(mismatches).toHaveLength(0);
+
+    await client.disconnect();
+    expect(transport.isOpen).toBe(false);
+  });
+
+  it("should not report a close after the transport was reopened", async () => {
+    const transport = new ReplayTransport([]);
+    let closes = 0;
+    transport.on("close", () => closes++);
+    await transport.connect();
+    transport.destroy();
+    await transport.connect();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(closes).toBe(0);
+    expect(transport.isOpen).toBe(true);
+
+    transport.destroy();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(closes).toBe(1);
+  });
+});
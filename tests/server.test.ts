@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import net from "node:net";
+import { SolarmanV5Server, type LoggerFrame } from "../src/server.js";
+import { SolarmanV5, ControlCode } from "../src/solarmanv5.js";
+
+const TEST_SERIAL = 3574591882;
+const TEST_PORT = 18900;
+
+/** Build a logger-initiated V5 frame with the given control code and payload */
+function loggerFrame(
+  control: number,
+  seq: number,
+  payload: Buffer,
+  serial = TEST_SERIAL
+): Buffer {
+  const frame = Buffer.alloc(13 + payload.length);
+  frame[0] = 0xa5;
+  frame.writeUInt16LE(payload.length, 1);
+  frame[3] = 0x10;
+  frame[4] = control;
+  frame[5] = seq;
+  frame[6] = 0x00;
+  frame.writeUInt32LE(serial, 7);
+  payload.copy(frame, 11);
+  frame[frame.length - 2] = SolarmanV5.calculateV5FrameChecksum(frame);
+  frame[frame.length - 1] = 0x15;
+  return frame;
+}
+
+function connectClient(): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(TEST_PORT, "127.0.0.1", () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+function nextChunk(socket: net.Socket): Promise<Buffer> {
+  return new Promise((resolve) => socket.once("data", resolve));
+}
+
+describe("SolarmanV5Server", () => {
+  let server: SolarmanV5Server;
+
+  beforeAll(async () => {
+    server = new SolarmanV5Server({ port: TEST_PORT, host: "127.0.0.1" });
+    await server.listen();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it("should throw on NaN port", () => {
+    expect(() => new SolarmanV5Server({ port: NaN })).toThrow("Invalid port");
+  });
+
+  it("should answer a heartbeat with a time response frame", async () => {
+    const socket = await connectClient();
+    try {
+      const heartbeat = loggerFrame(ControlCode.HEARTBEAT, 0x21, Buffer.from([0x00]));
+      const response = nextChunk(socket);
+      socket.write(heartbeat);
+      const frame = await response;
+
+      expect(frame.length).toBe(23);
+      expect(frame[0]).toBe(0xa5);
+      expect(frame.readUInt16LE(1)).toBe(10);
+      expect(frame[4]).toBe(ControlCode.HEARTBEAT - 0x30);
+      expect(frame[5]).toBe(0x22);
+      expect(frame.readUInt32LE(7)).toBe(TEST_SERIAL);
+      expect(frame[21]).toBe(SolarmanV5.calculateV5FrameChecksum(frame));
+      expect(frame[22]).toBe(0x15);
+      expect(frame).toEqual(SolarmanV5.timeResponseFrame(heartbeat));
+    } finally {
+      socket.destroy();
+    }
+  });
+
+  it("should emit typed events per logger serial", async () => {
+    const socket = await connectClient();
+    try {
+      const connected = new Promise<number>((resolve) =>
+        server.once("connect", (serial) => resolve(serial))
+      );
+      const data = new Promise<LoggerFrame>((resolve) =>
+        server.once("data", (frame, decoded) => {
+          // Payload too short to carry register blocks
+          expect(decoded).toBeNull();
+          resolve(frame);
+        })
+      );
+
+      const payload = Buffer.from([0x01, 0x02, 0x03]);
+      socket.write(loggerFrame(ControlCode.DATA, 5, payload));
+
+      expect(await connected).toBe(TEST_SERIAL);
+      const frame = await data;
+      expect(frame.serial).toBe(TEST_SERIAL);
+      expect(frame.controlCode).toBe(ControlCode.DATA);
+      expect(frame.sequence).toBe(5);
+      expect(frame.payload).toEqual(payload);
+      expect(server.loggers).toContain(TEST_SERIAL);
+
+      const disconnected = new Promise<number>((resolve) =>
+        server.once("disconnect", (serial) => resolve(serial))
+      );
+      socket.end();
+      expect(await disconnected).toBe(TEST_SERIAL);
+    } finally {
+      socket.destroy();
+    }
+  });
+
+  it("should split coalesced frames and skip garbage", async () => {
+    const socket = await connectClient();
+    try {
+      const received: number[] = [];
+      const done = new Promise<void>((resolve) => {
+        const onFrame = (frame: LoggerFrame) => {
+          received.push(frame.controlCode);
+          if (received.length === 2) {
+            server.off("frame", onFrame);
+            resolve();
+          }
+        };
+        server.on("frame", onFrame);
+      });
+
+      socket.write(
+        Buffer.concat([
+          Buffer.from([0x00, 0x15]),
+          loggerFrame(ControlCode.HANDSHAKE, 1, Buffer.alloc(4)),
+          loggerFrame(ControlCode.INFO, 2, Buffer.alloc(8)),
+        ])
+      );
+      await done;
+
+      expect(received).toEqual([ControlCode.HANDSHAKE, ControlCode.INFO]);
+    } finally {
+      socket.destroy();
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { PassThrough } from "node:stream";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SolarmanV5 } from "../src/solarmanv5.js";
+import { SolarmanV5Simulator } from "../src/simulator.js";
+import { SolarmanShell, ShellError } from "../src/shell.js";
+import { ArgumentError } from "../src/args.js";
+import type { RegisterMap } from "../src/registermap.js";
+
+const TEST_SERIAL = 2612749371;
+const TEST_PORT = 18950;
+
+const MAP: RegisterMap = {
+  fields: [
+    { name: "batterySoc", address: 0x0100, unit: "%" },
+    { name: "batteryVoltage", address: 0x0101, scale: 0.1, unit: "V" },
+    { name: "totalEnergy", address: 0x0200, type: "uint32", unit: "kWh" },
+  ],
+};
+
+describe("SolarmanShell", () => {
+  let simulator: SolarmanV5Simulator;
+  let modbus: SolarmanV5;
+
+  beforeAll(async () => {
+    simulator = new SolarmanV5Simulator({
+      serial: TEST_SERIAL,
+      port: TEST_PORT,
+      registers: {
+        1: { holding: { 0x0100: 87, 0x0101: 521, 0x0200: 1, 0x0201: 2 }, coils: { 2: 1 } },
+      },
+    });
+    await simulator.listen();
+    modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, { port: TEST_PORT, socketTimeout: 1 });
+    await modbus.connect();
+  });
+
+  afterAll(async () => {
+    await modbus.disconnect();
+    await simulator.close();
+  });
+
+  it("should read and write registers", async () => {
+    const shell = new SolarmanShell(modbus, { format: "ndjson" });
+    expect(await shell.execute("rh 0x0100 2")).toBe(
+      [
+        `{"address":256,"addressHex":"0x0100","value":87,"hex":"0x0057","signed":87}`,
+        `{"address":257,"addressHex":"0x0101","value":521,"hex":"0x0209","signed":521}`,
+      ].join("\n")
+    );
+    expect(await shell.execute("wh 0x0300 7 8")).toBe(
+      `{"address":768,"addressHex":"0x0300","quantity":2}`
+    );
+    expect(simulator.registers(1).holding.get(0x0301)).toBe(8);
+    expect(await shell.execute("wc 4 on")).toBe(`{"address":4,"addressHex":"0x0004","value":1}`);
+    expect(await shell.execute("rc 2 3")).toContain(`{"address":4,"addressHex":"0x0004","value":1}`);
+  });
+
+  it("should show named fields when a register map is loaded", async () => {
+    const shell = new SolarmanShell(modbus, { map: MAP });
+    const table = await shell.execute("rh batteryVoltage");
+    expect(table).toContain("batteryVoltage  52.1 V");
+
+    await shell.execute("format json");
+    const rows = JSON.parse(await shell.execute("rh 0x01ff 3"));
+    expect(rows.map((row: { field: string }) => row.field)).toEqual(["", "totalEnergy", "totalEnergy"]);
+    expect(rows[1].decoded).toBe("65538 kWh");
+    expect(rows[2].decoded).toBe("");
+
+    const fields = JSON.parse(await shell.execute("get batterySoc totalEnergy"));
+    expect(fields.map((f: { value: number }) => f.value)).toEqual([87, 65538]);
+  });
+
+  it("should reject unknown commands and arguments", async () => {
+    const shell = new SolarmanShell(modbus);
+    await expect(shell.execute("frobnicate")).rejects.toThrow(ShellError);
+    await expect(shell.execute("rh")).rejects.toThrow("Usage: rh <addr|field> [qty]");
+    await expect(shell.execute("rh batterySoc")).rejects.toThrow("no register map loaded");
+    await expect(shell.execute("wc 1 maybe")).rejects.toThrow(
+      "Expected on, off, 1, 0, 0xFF00 or 0x0000: maybe"
+    );
+    await expect(shell.execute("rc 0x01zz")).rejects.toThrow(ArgumentError);
+    await expect(shell.execute("format xml")).rejects.toThrow("Unknown format: xml");
+    await expect(shell.execute("map constructor")).rejects.toThrow("constructor");
+  });
+
+  it("should complete commands and field names", () => {
+    const shell = new SolarmanShell(modbus, { map: MAP });
+    expect(shell.complete("r")).toEqual([["rc", "rd", "rh", "ri"], "r"]);
+    expect(shell.complete("rh batt")).toEqual([["batterySoc", "batteryVoltage"], "batt"]);
+    expect(shell.complete("format n")).toEqual([["ndjson"], "n"]);
+  });
+
+  it("should run a session, watch registers and keep the history", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "solarman-shell-"));
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let text = "";
+    output.on("data", (chunk) => (text += chunk));
+    const waitFor = async (expected: string) => {
+      for (let i = 0; i < 100 && !text.includes(expected); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      expect(text).toContain(expected);
+    };
+
+    try {
+      const shell = new SolarmanShell(modbus, {
+        input,
+        output,
+        historyFile: join(dir, "history"),
+      });
+      const done = shell.run();
+
+      input.write("watch 0x0400 1 50\n");
+      await waitFor("0x0400: 0");
+      simulator.registers(1).holding.set(0x0400, 3);
+      await waitFor("0x0400: 0 -> 3");
+      input.write("\n");
+      expect(shell.isWatching).toBe(false);
+
+      input.write("decode a5 17 00\n");
+      input.write("exit\n");
+      await done;
+
+      expect(text).toContain("Error: ");
+      expect(await readFile(join(dir, "history"), "utf8")).toBe(
+        "watch 0x0400 1 50\ndecode a5 17 00\nexit\n"
+      );
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import net from "node:net";
+import {
+  SolarmanV5,
+  V5FrameError,
+  NoSocketAvailableError,
+  LoggerNoResponseError,
+  TimeoutError,
+} from "../src/solarmanv5.js";
+import { SolarmanV5Simulator, type SimulatorRequest } from "../src/simulator.js";
+import { ModbusError, ModbusExceptionError, addCrc } from "../src/modbus.js";
+
+const TEST_SERIAL = 2612749371;
+const TEST_PORT = 18920;
+
+describe("SolarmanV5Simulator", () => {
+  let simulator: SolarmanV5Simulator;
+  let modbus: SolarmanV5;
+
+  beforeAll(async () => {
+    simulator = new SolarmanV5Simulator({
+      serial: TEST_SERIAL,
+      port: TEST_PORT,
+      registers: {
+        1: { holding: { 0x0100: 100, 0x0101: 532 }, input: { 0x0010: 42 }, coils: { 3: 1 } },
+        2: { holding: { 0x0100: 200 } },
+      },
+    });
+    await simulator.listen();
+    modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, { port: TEST_PORT, socketTimeout: 1 });
+    await modbus.connect();
+  });
+
+  afterAll(async () => {
+    await modbus.disconnect();
+    await simulator.close();
+  });
+
+  afterEach(() => {
+    simulator.clearFaults();
+    simulator.strict = false;
+  });
+
+  it("should serve register reads from the bank", async () => {
+    expect(await modbus.readHoldingRegisters(0x0100, 3)).toEqual([100, 532, 0]);
+    expect(await modbus.readInputRegisters(0x0010, 1)).toEqual([42]);
+    expect(await modbus.readCoils(0, 5)).toEqual([0, 0, 0, 1, 0]);
+  });
+
+  it("should keep a separate bank per slave ID", async () => {
+    const slave2 = new SolarmanV5("127.0.0.1", TEST_SERIAL, { port: TEST_PORT, mbSlaveId: 2 });
+    await slave2.connect();
+    try {
+      expect(await slave2.readHoldingRegisters(0x0100, 1)).toEqual([200]);
+    } finally {
+      await slave2.disconnect();
+    }
+  });
+
+  it("should apply writes to the bank", async () => {
+    await modbus.writeHoldingRegister(0x0200, 7);
+    await modbus.writeMultipleHoldingRegisters(0x0201, [8, 9]);
+    await modbus.writeSingleCoil(10, 0xff00);
+    await modbus.writeMultipleCoils(20, [1, 0, 1]);
+    const bank = simulator.registers(1);
+    expect([0x0200, 0x0201, 0x0202].map((a) => bank.holding.get(a))).toEqual([7, 8, 9]);
+    expect(await modbus.readCoils(10, 1)).toEqual([1]);
+    expect(await modbus.readCoils(20, 3)).toEqual([1, 0, 1]);
+  });
+
+  it("should answer unknown addresses with IllegalDataAddress in strict mode", async () => {
+    simulator.strict = true;
+    await expect(modbus.readHoldingRegisters(0x0100, 3)).rejects.toThrow(ModbusError);
+    expect(await modbus.readHoldingRegisters(0x0100, 2)).toEqual([100, 532]);
+  });
+
+  it("should check the function code before the request length", async () => {
+    const short = await modbus.sendRawModbusFrame(addCrc(Buffer.from([0x01, 0x08, 0x00])));
+    expect(short.subarray(0, 3)).toEqual(Buffer.from([0x01, 0x88, 0x01]));
+    const truncated = await modbus.sendRawModbusFrame(addCrc(Buffer.from([0x01, 0x03, 0x01])));
+    expect(truncated.subarray(0, 3)).toEqual(Buffer.from([0x01, 0x83, 0x03]));
+  });
+
+  it("should inject Modbus exceptions", async () => {
+    simulator.injectFault({ type: "exception", code: 0x06 });
+    await expect(modbus.readHoldingRegisters(0x0100, 1)).rejects.toThrow("ServerDeviceBusy");
+    expect(await modbus.readHoldingRegisters(0x0100, 1)).toEqual([100]);
+  });
+
+  it("should inject delays and missing replies", async () => {
+    simulator.injectFault({ type: "delay", ms: 100 });
+    const start = Date.now();
+    expect(await modbus.readHoldingRegisters(0x0100, 1)).toEqual([100]);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+
+    simulator.injectFault({ type: "noReply" });
+    await expect(modbus.readHoldingRegisters(0x0100, 1, { timeout: 0.2 })).rejects.toThrow(
+      "Timeout"
+    );
+  });
+
+  it("should send frames without a Modbus reply", async () => {
+    simulator.injectFault({ type: "noInverterReply" });
+    await expect(modbus.readHoldingRegisters(0x0100, 1)).rejects.toThrow(V5FrameError);
+  });
+
+  it("should report failures with specific error types", async () => {
+    simulator.injectFault({ type: "exception", code: 0x0a });
+    await expect(modbus.readInputRegisters(0x0010, 1)).rejects.toMatchObject({
+      name: "ModbusExceptionError",
+      exceptionCode: 0x0a,
+      functionCode: 0x04,
+      message: "Modbus exception: GatewayPathUnavailable (FC 4)",
+    });
+
+    simulator.injectFault({ type: "noInverterReply", frameStatus: 0x00 });
+    const noResponse = modbus.readHoldingRegisters(0x0100, 1);
+    await expect(noResponse).rejects.toThrow(LoggerNoResponseError);
+    await expect(noResponse).rejects.toMatchObject({ frameStatus: 0x00 });
+
+    simulator.injectFault({ type: "noReply" });
+    const timeout = modbus.readHoldingRegisters(0x0100, 1, { timeout: 0.1 });
+    await expect(timeout).rejects.toThrow(TimeoutError);
+    await expect(timeout).rejects.toMatchObject({ timeout: 0.1 });
+    expect(ModbusExceptionError.prototype).toBeInstanceOf(ModbusError);
+  });
+
+  it("should count and retry responses without inverter reply", async () => {
+    const client = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT,
+      socketTimeout: 1,
+      noResponseRetries: 2,
+    });
+    const events: number[][] = [];
+    client.on("noResponse", (slaveId: number, frameStatus: number) => {
+      events.push([slaveId, frameStatus]);
+    });
+    await client.connect();
+    try {
+      simulator.injectFault({ type: "noInverterReply", frameStatus: 0x00 }, 2);
+      expect(await client.readHoldingRegisters(0x0100, 1)).toEqual([100]);
+      expect(client.noResponseCounts.get(1)).toBe(2);
+      expect(events).toEqual([[1, 0], [1, 0]]);
+
+      simulator.injectFault({ type: "noInverterReply" }, 3);
+      await expect(client.readHoldingRegisters(0x0100, 1)).rejects.toThrow(LoggerNoResponseError);
+      expect(client.noResponseCounts.get(1)).toBe(5);
+      expect(client.pendingRequests).toBe(0);
+    } finally {
+      await client.disconnect();
+    }
+  });
+
+  it("should send double-CRC responses", async () => {
+    const requests: SimulatorRequest[] = [];
+    simulator.on("request", (r) => requests.push(r));
+    simulator.injectFault({ type: "doubleCrc" });
+    expect(await modbus.readHoldingRegisters(0x0100, 2)).toEqual([100, 532]);
+    expect(requests[0].fault).toEqual({ type: "doubleCrc" });
+    expect(requests[0].functionCode).toBe(3);
+  });
+
+  it("should send unsolicited heartbeats", async () => {
+    simulator.injectFault({ type: "heartbeat" });
+    expect(await modbus.readHoldingRegisters(0x0101, 1)).toEqual([532]);
+
+    const socket = net.connect(TEST_PORT, "127.0.0.1");
+    await new Promise((resolve) => socket.once("connect", resolve));
+    const received = new Promise<Buffer>((resolve) => socket.once("data", resolve));
+    simulator.sendHeartbeat();
+    const frame = await received;
+    socket.destroy();
+    expect(frame[4]).toBe(0x47);
+    expect(frame.readUInt32LE(7)).toBe(TEST_SERIAL);
+  });
+
+  it("should apply a fault several times", async () => {
+    simulator.injectFault({ type: "exception", code: 0x04 }, 2);
+    await expect(modbus.readHoldingRegisters(0x0100, 1)).rejects.toThrow("ServerDeviceFailure");
+    await expect(modbus.readHoldingRegisters(0x0100, 1)).rejects.toThrow("ServerDeviceFailure");
+    expect(await modbus.readHoldingRegisters(0x0100, 1)).toEqual([100]);
+  });
+
+  it("should drop connections", async () => {
+    const client = new SolarmanV5("127.0.0.1", TEST_SERIAL, { port: TEST_PORT });
+    await client.connect();
+    simulator.injectFault({ type: "drop" });
+    await expect(client.readHoldingRegisters(0x0100, 1)).rejects.toThrow(
+      "Connection closed on read"
+    );
+    await expect(client.readHoldingRegisters(0x0100, 1)).rejects.toThrow(NoSocketAvailableError);
+    await client.disconnect();
+  });
+});
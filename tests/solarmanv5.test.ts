@@ -5,19 +5,29 @@ import {
   ControlCode,
   V5FrameError,
   NoSocketAvailableError,
+  RequestCancelledError,
 } from "../src/solarmanv5.js";
-import { addCrc } from "../src/modbus.js";
+import { addCrc, ModbusExceptionError } from "../src/modbus.js";
+import { SRNE_SPH10048P } from "../src/profiles.js";
+import type { LoggerInfo } from "../src/payloads.js";
+import { SolarmanV5Simulator } from "../src/simulator.js";
 
 const TEST_SERIAL = 2612749371;
 const TEST_PORT = 18899;
+const SILENT_ADDR = 0x0bad;
 
 /**
  * Mock Solarman V5 data logger server.
  *
  * Receives V5 frames, extracts the Modbus RTU request, generates a fake
  * response, wraps it back in a V5 response frame, and sends it back.
+ * `send` controls how the response frame is written to the socket.
  */
-function createMockServer(): net.Server {
+function createMockServer(
+  send: (socket: net.Socket, frame: Buffer) => void = (socket, frame) => {
+    socket.write(frame);
+  }
+): net.Server {
   const server = net.createServer((socket) => {
     socket.on("data", (raw) => {
       try {
@@ -52,6 +62,11 @@ function createMockServer(): net.Server {
         const slaveId = modbusFrame[0];
         const functionCode = modbusFrame[1];
 
+        // Never answer requests for this address, to exercise timeouts
+        if (modbusFrame.readUInt16BE(2) === SILENT_ADDR) {
+          return;
+        }
+
         let modbusResponse: Buffer;
 
         // Check if register address is > 4000 to simulate exception
@@ -108,7 +123,7 @@ function createMockServer(): net.Server {
         v5Response[v5Response.length - 2] = checksum;
         v5Response[v5Response.length - 1] = 0x15; // end
 
-        socket.write(v5Response);
+        send(socket, v5Response);
       } catch {
         // Ignore errors in mock server
       }
@@ -319,6 +334,357 @@ describe("SolarmanV5", () => {
     }
   });
 
+  it("should read a register map", async () => {
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT,
+      socketTimeout: 5,
+    });
+    await modbus.connect();
+    try {
+      const result = await modbus.readMap({
+        fields: [
+          { name: "voltage", address: 20, scale: 0.1, unit: "V" },
+          { name: "current", address: 21, scale: 0.01, unit: "A" },
+          { name: "energy", address: 40, type: "uint32", table: "input" },
+        ],
+      });
+      expect(result.voltage).toEqual({ value: 10, unit: "V", raw: [100] });
+      expect(result.current.value).toBeCloseTo(1.01);
+      expect(result.energy.value).toBe(100 * 65536 + 101);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+  it("should read a planned set of registers", async () => {
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT,
+      socketTimeout: 5,
+    });
+    await modbus.connect();
+    try {
+      const registers = await modbus.readRegisters([10, 12, 30], { maxGap: 1 });
+      expect([...registers.entries()]).toEqual([
+        [10, 100],
+        [11, 101],
+        [12, 102],
+        [30, 100],
+      ]);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+  it("should read a full SRNE snapshot in one call", async () => {
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT,
+      socketTimeout: 5,
+    });
+    await modbus.connect();
+    try {
+      const snapshot = await modbus.readMap(SRNE_SPH10048P);
+      expect(Object.keys(snapshot)).toEqual(
+        SRNE_SPH10048P.fields.map((f) => f.name)
+      );
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+  it("should serialize concurrent requests", async () => {
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT,
+      socketTimeout: 5,
+    });
+    await modbus.connect();
+    try {
+      const results = await Promise.all([
+        modbus.readHoldingRegisters(20, 4),
+        modbus.readInputRegisters(40, 2),
+        modbus.readCoils(30, 8),
+        modbus.writeHoldingRegister(100, 0x1234),
+      ]);
+      expect(results).toEqual([
+        [100, 101, 102, 103],
+        [100, 101],
+        [1, 1, 0, 1, 0, 1, 0, 1],
+        0x1234,
+      ]);
+      expect(modbus.pendingRequests).toBe(0);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+  it("should time out a single request and continue with the queue", async () => {
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT,
+      socketTimeout: 5,
+    });
+    await modbus.connect();
+    try {
+      const silent = modbus.readHoldingRegisters(SILENT_ADDR, 1, {
+        timeout: 0.2,
+      });
+      const next = modbus.readHoldingRegisters(20, 2);
+      await expect(silent).rejects.toThrow("Timeout waiting for response");
+      await expect(next).resolves.toEqual([100, 101]);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+  it("should cancel queued and in-flight requests", async () => {
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT,
+      socketTimeout: 5,
+    });
+    await modbus.connect();
+    try {
+      const inFlight = new AbortController();
+      const queued = new AbortController();
+      const first = modbus.readHoldingRegisters(SILENT_ADDR, 1, {
+        signal: inFlight.signal,
+      });
+      const second = modbus.readHoldingRegisters(20, 1, {
+        signal: queued.signal,
+      });
+      const third = modbus.readHoldingRegisters(21, 1);
+      expect(modbus.pendingRequests).toBe(3);
+
+      queued.abort();
+      await expect(second).rejects.toThrow(RequestCancelledError);
+      // Let the mock logger receive the silent request on its own
+      await new Promise((r) => setTimeout(r, 50));
+      inFlight.abort();
+      await expect(first).rejects.toThrow(RequestCancelledError);
+      await expect(third).resolves.toEqual([100]);
+
+      const aborted = new AbortController();
+      aborted.abort();
+      await expect(
+        modbus.readHoldingRegisters(20, 1, { signal: aborted.signal })
+      ).rejects.toThrow(RequestCancelledError);
+
+      const pending = modbus.readHoldingRegisters(SILENT_ADDR, 1);
+      modbus.cancelPendingRequests();
+      await expect(pending).rejects.toThrow(RequestCancelledError);
+    } finally {
+      await modbus.disconnect();
+    }
+  });
+
+  it("should reassemble responses split across or coalesced within TCP chunks", async () => {
+    const heartbeat = Buffer.from("a50100104701001201000000000015", "hex");
+    heartbeat.writeUInt32LE(TEST_SERIAL, 7);
+    heartbeat[13] = SolarmanV5.calculateV5FrameChecksum(heartbeat);
+
+    // Heartbeat + first half of the response, then the rest 20ms later
+    const splitServer = createMockServer((socket, frame) => {
+      const cut = Math.floor(frame.length / 2);
+      socket.write(Buffer.concat([heartbeat, frame.subarray(0, cut)]));
+      setTimeout(() => socket.write(frame.subarray(cut)), 20);
+    });
+    await new Promise<void>((resolve) =>
+      splitServer.listen(TEST_PORT + 3, "127.0.0.1", () => resolve())
+    );
+
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT + 3,
+      socketTimeout: 5,
+    });
+    await modbus.connect();
+    try {
+      expect(await modbus.readHoldingRegisters(20, 4)).toEqual([
+        100, 101, 102, 103,
+      ]);
+      expect(await modbus.readHoldingRegisters(30, 2)).toEqual([100, 101]);
+    } finally {
+      await modbus.disconnect();
+      await new Promise<void>((resolve) => splitServer.close(() => resolve()));
+    }
+  });
+
+  it("should reject a truncated Modbus frame as a V5FrameError", async () => {
+    // Keep only the slave ID and function code of the Modbus response
+    const shortServer = createMockServer((socket, frame) => {
+      const truncated = Buffer.concat([frame.subarray(0, 27), frame.subarray(-2)]);
+      truncated.writeUInt16LE(truncated.length - 13, 1);
+      truncated[truncated.length - 2] = SolarmanV5.calculateV5FrameChecksum(truncated);
+      socket.write(truncated);
+    });
+    await new Promise<void>((resolve) =>
+      shortServer.listen(TEST_PORT + 5, "127.0.0.1", () => resolve())
+    );
+
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT + 5,
+      socketTimeout: 5,
+    });
+    await modbus.connect();
+    try {
+      const error = await modbus.readHoldingRegisters(20, 4).catch((err) => err);
+      expect(error).toBeInstanceOf(V5FrameError);
+      expect(error).not.toBeInstanceOf(ModbusExceptionError);
+      expect(error.message).toContain("(2 bytes)");
+    } finally {
+      await modbus.disconnect();
+      await new Promise<void>((resolve) => shortServer.close(() => resolve()));
+    }
+  });
+
+  it("should answer and emit unsolicited INFO frames", async () => {
+    const payload = Buffer.alloc(16 + 40);
+    payload[15] = 88; // signal strength
+    payload.write("LSW5_01_2421_SS_00_00.00.00.06", 16, "ascii");
+
+    const info = Buffer.alloc(13 + payload.length);
+    info[0] = 0xa5;
+    info.writeUInt16LE(payload.length, 1);
+    info[3] = 0x10;
+    info[4] = ControlCode.INFO;
+    info[5] = 0x42;
+    info.writeUInt32LE(TEST_SERIAL, 7);
+    payload.copy(info, 11);
+    info[info.length - 2] = SolarmanV5.calculateV5FrameChecksum(info);
+    info[info.length - 1] = 0x15;
+
+    let timeResponse: Buffer | null = null;
+    const pushServer = net.createServer((socket) => {
+      socket.on("data", (data) => {
+        timeResponse = data;
+      });
+      socket.write(info);
+    });
+    await new Promise<void>((resolve) =>
+      pushServer.listen(TEST_PORT + 2, "127.0.0.1", () => resolve())
+    );
+
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT + 2,
+      socketTimeout: 5,
+    });
+    try {
+      const received = new Promise<LoggerInfo>((resolve) => modbus.once("info", resolve));
+      await modbus.connect();
+      const loggerInfo = await received;
+      expect(loggerInfo.firmware).toBe("LSW5_01_2421_SS_00_00.00.00.06");
+      expect(loggerInfo.signalStrength).toBe(88);
+
+      await new Promise((r) => setTimeout(r, 50));
+      expect(timeResponse).not.toBeNull();
+      expect(timeResponse![4]).toBe(ControlCode.INFO - 0x30);
+    } finally {
+      await modbus.disconnect();
+      await new Promise<void>((resolve) => pushServer.close(() => resolve()));
+    }
+  });
+
+  it("should read device identification across several responses", async () => {
+    const simulator = new SolarmanV5Simulator({
+      serial: TEST_SERIAL,
+      port: TEST_PORT + 3,
+      deviceIdentification: {
+        0x00: "SRNE",
+        0x01: "SPH10048P",
+        0x02: "V1.2",
+        0x05: "HF4850S80-H",
+        0x80: "A".repeat(120),
+        0x81: Buffer.alloc(120, 0x42),
+      },
+    });
+    await simulator.listen();
+    let requests = 0;
+    simulator.on("request", () => requests++);
+
+    const modbus = new SolarmanV5("127.0.0.1", TEST_SERIAL, { port: TEST_PORT + 3 });
+    try {
+      await modbus.connect();
+      const id = await modbus.readDeviceIdentification();
+      expect(id.vendorName).toBe("SRNE");
+      expect(id.productCode).toBe("SPH10048P");
+      expect(id.revision).toBe("V1.2");
+      expect(id.modelName).toBe("HF4850S80-H");
+      expect(id.vendorUrl).toBeUndefined();
+      expect(id.conformityLevel).toBe(0x83);
+      expect(id.objects.get(0x81)).toEqual(Buffer.alloc(120, 0x42));
+      expect(requests).toBe(2);
+
+      const basic = await modbus.readDeviceIdentification(1);
+      expect([...basic.objects.keys()]).toEqual([0, 1, 2]);
+    } finally {
+      await modbus.disconnect();
+      await simulator.close();
+    }
+  });
+
+  it("should use native FC 22/23 and fall back to emulation on IllegalFunction", async () => {
+    const simulator = new SolarmanV5Simulator({
+      serial: TEST_SERIAL,
+      port: TEST_PORT + 4,
+      registers: { 1: { holding: { 0x0100: 0b1010, 0x0101: 1 } } },
+    });
+    await simulator.listen();
+    const functionCodes: number[] = [];
+    simulator.on("request", (r) => functionCodes.push(r.functionCode));
+
+    const native = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT + 4,
+      nativeFunctions: true,
+    });
+    const emulated = new SolarmanV5("127.0.0.1", TEST_SERIAL, { port: TEST_PORT + 4 });
+    try {
+      await native.connect();
+      await emulated.connect();
+      const holding = simulator.registers(1).holding;
+
+      // Set bit 0, clear bit 3: same result either way
+      expect(await native.maskedWriteHoldingRegister(0x0100, 0b0001, 0xfff7)).toBe(0b0011);
+      expect(holding.get(0x0100)).toBe(0b0011);
+      expect(functionCodes).toEqual([0x16, 0x03]);
+
+      functionCodes.length = 0;
+      expect(await emulated.maskedWriteHoldingRegister(0x0100, 0b1000, 0xfffe)).toBe(0b1010);
+      expect(functionCodes).toEqual([0x03, 0x06]);
+
+      functionCodes.length = 0;
+      expect(await native.readWriteMultipleHoldingRegisters(0x0100, 3, 0x0101, [7, 8])).toEqual([
+        0b1010, 7, 8,
+      ]);
+      expect(await emulated.readWriteMultipleHoldingRegisters(0x0101, 2, 0x0101, [9, 9])).toEqual([
+        9, 9,
+      ]);
+      expect(functionCodes).toEqual([0x17, 0x10, 0x03]);
+    } finally {
+      await native.disconnect();
+      await emulated.disconnect();
+      await simulator.close();
+    }
+
+    const legacy = new SolarmanV5Simulator({
+      serial: TEST_SERIAL,
+      port: TEST_PORT + 4,
+      registers: { 1: { holding: { 0x0100: 0 } } },
+      unsupportedFunctions: [0x16, 0x17],
+    });
+    await legacy.listen();
+    functionCodes.length = 0;
+    legacy.on("request", (r) => functionCodes.push(r.functionCode));
+    const client = new SolarmanV5("127.0.0.1", TEST_SERIAL, {
+      port: TEST_PORT + 4,
+      nativeFunctions: true,
+    });
+    try {
+      await client.connect();
+      expect(await client.maskedWriteHoldingRegister(0x0100, 0b0100)).toBe(0b0100);
+      expect(await client.maskedWriteHoldingRegister(0x0100, 0b0001)).toBe(0b0101);
+      expect(functionCodes).toEqual([0x16, 0x03, 0x06, 0x03, 0x06]);
+    } finally {
+      await client.disconnect();
+      await legacy.close();
+    }
+  });
+
   it("parseInt wrapper should not produce NaN when Commander passes default as second arg", () => {
     // This is the exact pattern that caused the bug:
     // Commander calls fn(userValue, defaultValue)
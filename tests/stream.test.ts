@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { V5FrameAccumulator } from "../src/stream.js";
+import { SolarmanV5 } from "../src/solarmanv5.js";
+
+/** Build a minimal valid V5 frame with the given control code and payload */
+function v5Frame(control: number, payload: Buffer, seq = 1): Buffer {
+  const frame = Buffer.alloc(13 + payload.length);
+  frame[0] = 0xa5;
+  frame.writeUInt16LE(payload.length, 1);
+  frame[3] = 0x10;
+  frame[4] = control;
+  frame[5] = seq;
+  frame.writeUInt32LE(2612749371, 7);
+  payload.copy(frame, 11);
+  frame[frame.length - 2] = SolarmanV5.calculateV5FrameChecksum(frame);
+  frame[frame.length - 1] = 0x15;
+  return frame;
+}
+
+const HEARTBEAT = v5Frame(0x47, Buffer.from([0x00]), 7);
+const RESPONSE = v5Frame(0x15, Buffer.from("02010000000000000000000000000103020064b9af", "hex"), 8);
+
+describe("V5FrameAccumulator", () => {
+  it("should pass through a single complete frame", () => {
+    const acc = new V5FrameAccumulator();
+    expect(acc.push(RESPONSE)).toEqual([RESPONSE]);
+    expect(acc.pending).toBe(0);
+  });
+
+  it("should reassemble a frame split across chunks", () => {
+    const acc = new V5FrameAccumulator();
+    expect(acc.push(RESPONSE.subarray(0, 2))).toEqual([]);
+    expect(acc.push(RESPONSE.subarray(2, 20))).toEqual([]);
+    expect(acc.pending).toBe(20);
+    expect(acc.push(RESPONSE.subarray(20))).toEqual([RESPONSE]);
+    expect(acc.pending).toBe(0);
+  });
+
+  it("should split coalesced frames", () => {
+    const acc = new V5FrameAccumulator();
+    const frames = acc.push(Buffer.concat([HEARTBEAT, RESPONSE]));
+    expect(frames).toEqual([HEARTBEAT, RESPONSE]);
+  });
+
+  it("should handle a frame boundary inside a chunk", () => {
+    const acc = new V5FrameAccumulator();
+    const stream = Buffer.concat([HEARTBEAT, RESPONSE]);
+    const cut = HEARTBEAT.length + 5;
+    expect(acc.push(stream.subarray(0, cut))).toEqual([HEARTBEAT]);
+    expect(acc.push(stream.subarray(cut))).toEqual([RESPONSE]);
+  });
+
+  it("should resynchronise after garbage", () => {
+    const discarded: Buffer[] = [];
+    const acc = new V5FrameAccumulator({
+      onDiscard: (bytes) => discarded.push(bytes),
+    });
+    const frames = acc.push(
+      Buffer.concat([Buffer.from([0x00, 0x15, 0x42]), HEARTBEAT])
+    );
+    expect(frames).toEqual([HEARTBEAT]);
+    expect(Buffer.concat(discarded)).toEqual(Buffer.from([0x00, 0x15, 0x42]));
+  });
+
+  it("should skip a false start byte when the checksum does not match", () => {
+    const acc = new V5FrameAccumulator();
+    // 0xa5 followed by a plausible length, but not a real frame
+    const garbage = Buffer.from([0xa5, 0x01, 0x00, 0x10, 0x47, 0x00, 0x00, 0x00,
+      0x00, 0x00, 0x00, 0x00, 0x99, 0x15]);
+    expect(acc.push(Buffer.concat([garbage, RESPONSE]))).toEqual([RESPONSE]);
+  });
+
+  it("should not wait for the frame of a spurious start byte", () => {
+    const discarded: Buffer[] = [];
+    const acc = new V5FrameAccumulator({
+      onDiscard: (bytes) => discarded.push(bytes),
+    });
+    // 0xa5 followed by a plausible length of 1000 bytes
+    const garbage = Buffer.from([0xa5, 0xe8, 0x03]);
+    expect(acc.push(Buffer.concat([garbage, HEARTBEAT]))).toEqual([HEARTBEAT]);
+    expect(Buffer.concat(discarded)).toEqual(garbage);
+    expect(acc.pending).toBe(0);
+
+    // Still waits for a real frame that is only partly received
+    expect(acc.push(Buffer.concat([garbage, RESPONSE.subarray(0, 20)]))).toEqual([]);
+    expect(acc.push(RESPONSE.subarray(20))).toEqual([RESPONSE]);
+  });
+
+  it("should reject implausible length fields", () => {
+    const acc = new V5FrameAccumulator({ maxPayloadLength: 256 });
+    const frames = acc.push(
+      Buffer.concat([Buffer.from([0xa5, 0xff, 0xff]), HEARTBEAT])
+    );
+    expect(frames).toEqual([HEARTBEAT]);
+  });
+
+  it("should reset buffered bytes", () => {
+    const acc = new V5FrameAccumulator();
+    acc.push(RESPONSE.subarray(0, 10));
+    acc.reset();
+    expect(acc.pending).toBe(0);
+    expect(acc.push(HEARTBEAT)).toEqual([HEARTBEAT]);
+  });
+
+  it("isValidFrame should check start, end and checksum", () => {
+    expect(V5FrameAccumulator.isValidFrame(RESPONSE)).toBe(true);
+    const bad = Buffer.from(RESPONSE);
+    bad[bad.length - 2] ^= 0xff;
+    expect(V5FrameAccumulator.isValidFrame(bad)).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, afterAll, beforeAll } from "vitest";
+import net from "node:net";
+import { Duplex, PassThrough } from "node:stream";
+import { SolarmanV5, NoSocketAvailableError } from "../src/solarmanv5.js";
+import { SolarmanV5Simulator } from "../src/simulator.js";
+import { StreamTransport, TcpTransport } from "../src/transport.js";
+import { addCrc } from "../src/modbus.js";
+
+const TEST_SERIAL = 2612749371;
+const TEST_PORT = 18940;
+
+/** V5 response to `request` carrying a Modbus RTU frame */
+function respond(request: Buffer, mbFrame: Buffer): Buffer {
+  const frame = Buffer.alloc(27 + mbFrame.length);
+  frame[0] = 0xa5;
+  frame.writeUInt16LE(14 + mbFrame.length, 1);
+  frame[3] = 0x10;
+  frame[4] = 0x15;
+  frame[5] = request[5];
+  request.copy(frame, 7, 7, 11);
+  frame[11] = 0x02;
+  frame[12] = 0x01;
+  mbFrame.copy(frame, 25);
+  frame[frame.length - 2] = SolarmanV5.calculateV5FrameChecksum(frame);
+  frame[frame.length - 1] = 0x15;
+  return frame;
+}
+
+/** In-memory duplex pair: the client end and the logger's ends */
+function memoryLink() {
+  const toLogger = new PassThrough();
+  const fromLogger = new PassThrough();
+  const client = Duplex.from({ readable: fromLogger, writable: toLogger });
+  return { client, toLogger, fromLogger };
+}
+
+describe("StreamTransport", () => {
+  it("should run a client over an in-memory stream", async () => {
+    const { client, toLogger, fromLogger } = memoryLink();
+    toLogger.on("data", (request: Buffer) => {
+      fromLogger.write(respond(request, addCrc(Buffer.from([0x01, 0x03, 0x02, 0x00, 0x2a]))));
+    });
+
+    const modbus = new SolarmanV5("memory", TEST_SERIAL, {
+      transport: new StreamTransport(client),
+    });
+    await modbus.connect();
+    expect(modbus.isConnected).toBe(true);
+    expect(await modbus.readHoldingRegisters(0x0100, 1)).toEqual([42]);
+    await modbus.disconnect();
+    expect(modbus.isConnected).toBe(false);
+  });
+
+  it("should not reopen a stream instance", async () => {
+    const { client } = memoryLink();
+    const transport = new StreamTransport(client);
+    await transport.connect();
+    transport.destroy();
+    await expect(transport.connect()).rejects.toThrow("cannot reopen");
+
+    const modbus = new SolarmanV5("memory", TEST_SERIAL, { transport });
+    await expect(modbus.connect()).rejects.toThrow(NoSocketAvailableError);
+  });
+
+  it("should reject writes when closed", () => {
+    expect(() => new StreamTransport(memoryLink().client).write(Buffer.from([1]))).toThrow(
+      "not open"
+    );
+  });
+
+  it("should ignore the late close of a stream replaced by a reconnect", async () => {
+    const links: ReturnType<typeof memoryLink>[] = [];
+    const transport = new StreamTransport(() => {
+      const link = memoryLink();
+      links.push(link);
+      return link.client;
+    });
+    let closes = 0;
+    transport.on("close", () => closes++);
+    const modbus = new SolarmanV5("memory", TEST_SERIAL, { transport, autoReconnect: true });
+    await modbus.connect();
+
+    await modbus.reconnect();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(links).toHaveLength(2);
+    expect(closes).toBe(0);
+    expect(modbus.isConnected).toBe(true);
+
+    // The current stream closing is reported once and reconnected once
+    links[1].client.destroy();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(closes).toBe(1);
+    expect(links).toHaveLength(3);
+    expect(modbus.isConnected).toBe(true);
+    await modbus.disconnect();
+  });
+
+  it("should emit close when the stream ends", async () => {
+    const { client } = memoryLink();
+    const transport = new StreamTransport(client);
+    await transport.connect();
+    const closed = new Promise<void>((resolve) => transport.once("close", resolve));
+    client.destroy();
+    await closed;
+    expect(transport.isOpen).toBe(false);
+  });
+});
+
+describe("StreamTransport with a socket factory", () => {
+  let simulator: SolarmanV5Simulator;
+
+  beforeAll(async () => {
+    simulator = new SolarmanV5Simulator({
+      serial: TEST_SERIAL,
+      port: TEST_PORT,
+      registers: { 1: { holding: { 0x0100: 7 } } },
+    });
+    await simulator.listen();
+  });
+
+  afterAll(async () => {
+    await simulator.close();
+  });
+
+  it("should open a new stream on every connect", async () => {
+    let opened = 0;
+    const transport = new StreamTransport(
+      () =>
+        new Promise<Duplex>((resolve, reject) => {
+          opened++;
+          const socket = net.connect(TEST_PORT, "127.0.0.1", () => resolve(socket));
+          socket.once("error", reject);
+        })
+    );
+    const modbus = new SolarmanV5("tunnel", TEST_SERIAL, { transport, autoReconnect: true });
+    await modbus.connect();
+    expect(await modbus.readHoldingRegisters(0x0100, 1)).toEqual([7]);
+
+    await modbus.reconnect();
+    expect(opened).toBe(2);
+    expect(await modbus.readHoldingRegisters(0x0100, 1)).toEqual([7]);
+    await modbus.disconnect();
+  });
+
+  it("should connect over TCP by default", async () => {
+    const transport = new TcpTransport({ host: "127.0.0.1", port: TEST_PORT, timeout: 5 });
+    expect(transport.port).toBe(TEST_PORT);
+    await transport.connect();
+    expect(transport.isOpen).toBe(true);
+    await transport.close();
+    expect(transport.isOpen).toBe(false);
+  });
+});